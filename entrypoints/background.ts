@@ -1,4 +1,8 @@
 // Background script for handling screenshot capture
+import type { CaptureText } from './editor/sensitive';
+import type { CaptureInfo } from '../utils/captureHistory';
+import { addCapture, blobToDataUrl, dataUrlToBlob, captureEditorUrl, getRecordPageText } from '../utils/captureHistory';
+
 export default defineBackground(() => {
   console.log('Screenshot Editor Pro background script loaded');
 
@@ -23,7 +27,7 @@ export default defineBackground(() => {
   // Listen for messages from popup
   browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
     if (message.type === 'capture') {
-      handleCapture(message.mode)
+      handleCapture(message.mode, { delay: message.delay })
         .then((result) => sendResponse(result))
         .catch((error: any) => {
           console.error('Capture error:', error);
@@ -36,6 +40,16 @@ export default defineBackground(() => {
       return true;
     }
 
+    if (message.type === 'capture-batch') {
+      handleBatchCapture(message.mode, { scope: message.scope, name: message.name })
+        .then((result) => sendResponse(result))
+        .catch((error: any) => {
+          console.error('Batch capture error:', error);
+          sendResponse({ success: false, error: error.message || 'Unknown error' });
+        });
+      return true;
+    }
+
     if (message.type === 'selection-complete') {
       return false; // Handled by waitForSelection
     }
@@ -43,27 +57,99 @@ export default defineBackground(() => {
     return false;
   });
 
-  async function handleCapture(mode: string): Promise<{ success: boolean; error?: string }> {
+  // Keyboard shortcuts declared under `commands` in wxt.config.ts
+  const COMMAND_MODES: Record<string, string> = {
+    'capture-visible': 'visible',
+    'capture-selection': 'selection',
+    'capture-fullpage': 'fullpage',
+  };
+
+  browser.commands.onCommand.addListener((command) => {
+    const mode = COMMAND_MODES[command];
+    if (!mode) return;
+    handleCapture(mode).catch((error: any) => {
+      console.error(`Capture from shortcut "${command}" failed:`, error);
+    });
+  });
+
+  // Right-click entries; each id is the capture mode it runs
+  const CONTEXT_MENU_ITEMS: Browser.contextMenus.CreateProperties[] = [
+    { id: 'visible', title: 'Capture visible area', contexts: ['all'] },
+    { id: 'selection', title: 'Capture selected area', contexts: ['all'] },
+    { id: 'fullpage', title: 'Capture full page', contexts: ['all'] },
+    { id: 'image', title: 'Capture this image', contexts: ['image'] },
+    { id: 'element', title: 'Capture this element', contexts: ['all'] },
+  ];
+
+  browser.runtime.onInstalled.addListener(async () => {
+    // Captures used to be handed to the editor through these keys; they now live in IndexedDB
+    await browser.storage.local.remove(['capturedImage', 'capturedTiles', 'captureInfo', 'captureSet', 'captureText']);
+    await browser.contextMenus.removeAll();
+    CONTEXT_MENU_ITEMS.forEach(item => browser.contextMenus.create(item));
+  });
+
+  browser.contextMenus.onClicked.addListener((info) => {
+    const mode = String(info.menuItemId);
+    const context = { srcUrl: info.srcUrl, frameUrl: info.frameId ? info.frameUrl : undefined };
+    handleCapture(mode, { srcUrl: info.srcUrl, context }).catch((error: any) => {
+      console.error(`Capture from context menu "${mode}" failed:`, error);
+    });
+  });
+
+  interface CaptureOptions {
+    // Seconds to count down before a 'delayed' capture
+    delay?: number;
+    // Address of the image to capture in 'image' mode
+    srcUrl?: string;
+    // Where the context menu was opened, for capturing that element in 'element' mode instead of letting the user pick one
+    context?: ContextMenuTarget;
+  }
+
+  async function handleCapture(mode: string, options: CaptureOptions = {}): Promise<{ success: boolean; error?: string }> {
     try {
-      let imageDataUrl: string;
+      let result: CaptureResult;
 
       switch (mode) {
-        case 'visible':
-          imageDataUrl = await captureVisibleTab();
+        case 'visible': {
+          // Reading the text doesn't change the page, so it doesn't hold up the screenshot
+          const [images, text] = await Promise.all([captureVisibleTab().then(src => [src]), collectActiveTabText('viewport')]);
+          result = { images, text };
           break;
+        }
         case 'selection':
-          imageDataUrl = await captureWithSelection();
+          result = await captureWithSelection();
           break;
-        case 'fullpage':
-          imageDataUrl = await captureFullPage();
+        case 'fullpage': {
+          // Collected first, not alongside: the capture scrolls the page and hides its fixed elements
+          const text = await collectActiveTabText('document');
+          result = { ...await captureFullPage(), text };
+          break;
+        }
+        case 'scrollarea':
+          result = await captureScrollArea();
+          break;
+        case 'element':
+          result = await captureElement(options.context);
+          break;
+        case 'delayed':
+          result = await captureDelayed(options.delay ?? 3);
+          break;
+        case 'image':
+          if (!options.srcUrl) throw new Error('No image to capture');
+          result = await captureImage(options.srcUrl);
           break;
         default:
           throw new Error('Unknown capture mode');
       }
 
-      await browser.storage.local.set({ capturedImage: imageDataUrl });
+      // Pages taller than one canvas arrive as several tiles, kept in order as the capture's images
       const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
-      await browser.tabs.create({ url: browser.runtime.getURL('/editor.html') });
+      const id = await storeCapture(
+        { mode, url: tab?.url, title: tab?.title, truncated: result.truncated ? [tab?.title || tab?.url || 'the page'] : undefined },
+        result.images.map((src, i) => ({ src, label: `Part ${i + 1}`, url: tab?.url, title: tab?.title })),
+        result.text ? { ...result.text, tileHeight: result.tileHeight ?? MAX_CANVAS_HEIGHT } : null,
+      );
+      await browser.tabs.create({ url: captureEditorUrl(id) });
       await broadcastCleanup(tab?.id);
 
       return { success: true };
@@ -75,6 +161,164 @@ export default defineBackground(() => {
     }
   }
 
+  interface BatchOptions {
+    // 'selected' captures the highlighted tabs, 'window' every tab of the current window
+    scope?: 'selected' | 'window';
+    name?: string;
+  }
+
+  // One tab of a capture set
+  interface CaptureSetItem {
+    title: string;
+    url: string;
+    images: string[];
+    truncated?: boolean;
+  }
+
+  interface CaptureSet {
+    name: string;
+    createdAt: number;
+    items: CaptureSetItem[];
+    // Titles of the tabs that could not be captured (e.g. internal browser pages)
+    failed: string[];
+  }
+
+  // Only modes that need no interaction on the page can run unattended over many tabs
+  const BATCH_MODES = ['visible', 'fullpage'];
+
+  // Activates each tab in turn, captures it and opens the results as one named capture set
+  async function handleBatchCapture(mode: string, options: BatchOptions = {}): Promise<{ success: boolean; error?: string }> {
+    if (!BATCH_MODES.includes(mode)) throw new Error(`Batch capture does not support the "${mode}" mode`);
+
+    const tabs = await browser.tabs.query(
+      options.scope === 'window' ? { currentWindow: true } : { currentWindow: true, highlighted: true }
+    );
+    if (!tabs.length) throw new Error('No tabs to capture');
+
+    const [originalTab] = await browser.tabs.query({ active: true, currentWindow: true });
+    const set: CaptureSet = {
+      name: options.name?.trim() || `Capture set ${new Date().toLocaleString()}`,
+      createdAt: Date.now(),
+      items: [],
+      failed: [],
+    };
+
+    try {
+      for (const tab of tabs) {
+        if (!tab.id) continue;
+        const title = tab.title || tab.url || `Tab ${tab.index + 1}`;
+
+        try {
+          await browser.tabs.update(tab.id, { active: true });
+          await waitForTabLoad(tab.id);
+          // Give the newly shown tab time to paint before it is captured
+          await new Promise(resolve => setTimeout(resolve, 500));
+
+          const result: CaptureResult = mode === 'fullpage'
+            ? await captureFullPage()
+            : { images: [await captureVisibleTab()] };
+          set.items.push({ title, url: tab.url || '', images: result.images, truncated: result.truncated });
+        } catch (e) {
+          console.warn(`Batch capture: skipping "${title}":`, e);
+          set.failed.push(title);
+        }
+      }
+    } finally {
+      if (originalTab?.id) await browser.tabs.update(originalTab.id, { active: true }).catch(() => { });
+    }
+
+    if (!set.items.length) throw new Error('None of the tabs could be captured');
+
+    const id = await storeCapture(
+      {
+        mode: 'batch',
+        name: set.name,
+        url: set.items[0].url,
+        title: set.items[0].title,
+        truncated: set.items.filter(item => item.truncated).map(item => item.title),
+        failed: set.failed,
+      },
+      set.items.flatMap(item => item.images.map((src, i) => ({
+        src,
+        label: item.images.length > 1 ? `${item.title} (${i + 1}/${item.images.length})` : item.title,
+        url: item.url,
+        title: item.title,
+      }))),
+    );
+    await browser.tabs.create({ url: captureEditorUrl(id) });
+
+    return { success: true };
+  }
+
+  // Adds the capture to the history library as binary images; the editor is opened with its id
+  // and reads it from there, so no image data goes through storage.local or messages.
+  async function storeCapture(
+    info: CaptureInfo,
+    images: { src: string; label: string; url?: string; title?: string }[],
+    text?: CaptureText | null,
+  ): Promise<string> {
+    const blobs = await Promise.all(images.map(async ({ src, ...image }) => ({ ...image, blob: await dataUrlToBlob(src) })));
+    try {
+      return await addCapture(info, blobs, text);
+    } catch (e) {
+      console.error('Storing the capture failed:', e);
+      throw new Error('The capture could not be stored. Free some disk space and try again.');
+    }
+  }
+
+  // Resolves once the tab has finished loading (discarded tabs reload when activated)
+  async function waitForTabLoad(tabId: number, timeoutMs = 15000) {
+    const startedAt = Date.now();
+    while (Date.now() - startedAt < timeoutMs) {
+      const tab = await browser.tabs.get(tabId);
+      if (tab.status === 'complete') return;
+      await new Promise(resolve => setTimeout(resolve, 200));
+    }
+  }
+
+  interface CaptureResult {
+    images: string[];
+    // Set when the frame limit stopped the capture before the end of the page, or the canvas
+    // width limit cut off its right edge
+    truncated?: boolean;
+    // Page text inside the captured area, for finding sensitive data in the editor
+    text?: CaptureText;
+    // Height of each image when the capture was split into several, in image pixels
+    tileHeight?: number;
+  }
+
+  // Hard stop for runaway pages (each frame costs ~1s of scrolling and settling; frames are
+  // stitched as they come, so this bounds the time, not the memory)
+  const MAX_CAPTURE_FRAMES = 400;
+
+  // Largest canvas side; taller captures are split into tiles of at most this height
+  const MAX_CANVAS_HEIGHT = 30000;
+  const MAX_CANVAS_WIDTH = 30000;
+  // Largest canvas area (Chrome's limit); wide pages get shorter tiles to stay under it
+  const MAX_CANVAS_AREA = 16384 * 16384;
+
+  // Asks the content script for the words inside the area and where they are, unless page text
+  // recording is turned off. Pages it can't run on just get no text, so this never fails the capture.
+  async function collectCaptureText(tabId: number, space: 'viewport' | 'document', area?: TabRect): Promise<CaptureText | undefined> {
+    const message = { type: 'collect-text', space, area };
+    try {
+      if (!(await getRecordPageText())) return undefined;
+      // The script is usually already on the page from an earlier capture; inject it only when nothing answers
+      return await browser.tabs.sendMessage(tabId, message).catch(async () => {
+        await injectContentScript(tabId, 0);
+        return browser.tabs.sendMessage(tabId, message);
+      });
+    } catch (e) {
+      console.warn('Collecting page text failed:', e);
+      return undefined;
+    }
+  }
+
+  async function collectActiveTabText(space: 'viewport' | 'document'): Promise<CaptureText | undefined> {
+    const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+    return tab?.id ? collectCaptureText(tab.id, space) : undefined;
+  }
+
   async function captureVisibleTab(): Promise<string> {
     const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
     if (!tab?.id) throw new Error('No active tab');
@@ -93,24 +337,33 @@ export default defineBackground(() => {
     });
   }
 
-  async function captureWithSelection(): Promise<string> {
+  // Counts down on the page so hover menus, tooltips and dropdowns can be opened first
+  async function captureDelayed(seconds: number): Promise<CaptureResult> {
     const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
     if (!tab?.id) throw new Error('No active tab');
 
-    const possiblePaths = ['content-scripts/content.js', 'content.js'];
-    let injected = false;
-    for (const path of possiblePaths) {
-      try {
-        await chrome.scripting.executeScript({
-          target: { tabId: tab.id },
-          files: [path],
-        });
-        injected = true;
-        break;
-      } catch (e) { }
+    const delay = Math.min(60, Math.max(1, Math.round(seconds) || 3));
+    await injectContentScript(tab.id);
+
+    try {
+      await browser.tabs.sendMessage(tab.id, { type: 'start-countdown', seconds: delay });
+    } catch (e) {
+      throw new Error('Could not connect to the page. Please refresh and try again.');
     }
 
-    await new Promise(resolve => setTimeout(resolve, 300));
+    // The content script removes its overlay before reporting back
+    await waitForTabMessage(tab.id, 'countdown-complete', 'Countdown', (delay + 10) * 1000);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    const text = await collectCaptureText(tab.id, 'viewport');
+
+    return { images: [await captureVisibleTab()], text };
+  }
+
+  async function captureWithSelection(): Promise<CaptureResult> {
+    const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+    if (!tab?.id) throw new Error('No active tab');
+
+    await injectContentScript(tab.id);
 
     try {
       await browser.tabs.sendMessage(tab.id, { type: 'start-selection' });
@@ -119,7 +372,9 @@ export default defineBackground(() => {
     }
 
     const rect = await waitForSelection(tab.id);
+    // Let the page repaint without the selection overlay
     await new Promise(resolve => setTimeout(resolve, 300));
+    const text = await collectCaptureText(tab.id, 'viewport', rect);
 
     const fullDataUrl = await new Promise<string>((resolve, reject) => {
       chrome.tabs.captureVisibleTab(
@@ -134,24 +389,41 @@ export default defineBackground(() => {
       );
     });
 
-    return await cropImage(fullDataUrl, rect, tab.id);
+    return { images: [await cropImage(fullDataUrl, rect, tab.id)], text };
   }
 
-  function waitForSelection(tabId: number): Promise<{ x: number; y: number; width: number; height: number }> {
+  // `settleMs` gives the page time to apply the script's styles; messages work as soon as it ran
+  async function injectContentScript(tabId: number, settleMs = 300) {
+    const possiblePaths = ['content-scripts/content.js', 'content.js'];
+    for (const path of possiblePaths) {
+      try {
+        await browser.scripting.executeScript({
+          target: { tabId },
+          files: [path],
+        });
+        break;
+      } catch (e) { }
+    }
+
+    if (settleMs) await new Promise(resolve => setTimeout(resolve, settleMs));
+  }
+
+  // Resolves with the first message of the given type sent by the tab's content script
+  function waitForTabMessage(tabId: number, type: string, label: string, timeoutMs = 60000): Promise<any> {
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
         browser.runtime.onMessage.removeListener(listener);
-        reject(new Error('Selection timeout'));
-      }, 60000);
+        reject(new Error(`${label} timeout`));
+      }, timeoutMs);
 
       const listener = (message: any, sender: any) => {
-        if (sender.tab?.id === tabId && message.type === 'selection-complete') {
+        if (sender.tab?.id === tabId && message.type === type) {
           clearTimeout(timeout);
           browser.runtime.onMessage.removeListener(listener);
           if (message.canceled) {
-            reject(new Error('Selection canceled'));
+            reject(new Error(`${label} canceled`));
           } else {
-            resolve(message.rect);
+            resolve(message);
           }
         }
       };
@@ -160,6 +432,11 @@ export default defineBackground(() => {
     });
   }
 
+  async function waitForSelection(tabId: number): Promise<{ x: number; y: number; width: number; height: number }> {
+    const message = await waitForTabMessage(tabId, 'selection-complete', 'Selection');
+    return message.rect;
+  }
+
   interface TabRect {
     x: number;
     y: number;
@@ -199,17 +476,25 @@ export default defineBackground(() => {
     return results[0].result;
   }
 
-  async function captureFullPage(): Promise<string> {
-    const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
-    if (!tab?.id) throw new Error('No active tab');
+  interface PageDimensions {
+    scrollHeight: number;
+    scrollWidth: number;
+    clientHeight: number;
+    clientWidth: number;
+    scrollX: number;
+    scrollY: number;
+    devicePixelRatio: number;
+  }
 
+  async function getPageDimensions(tabId: number): Promise<PageDimensions> {
     const dimensions = await new Promise<any>((resolve) => {
       // @ts-ignore
       chrome.scripting.executeScript(
         {
-          target: { tabId: tab.id! },
+          target: { tabId },
           func: () => ({
             scrollHeight: Math.max(document.body.scrollHeight, document.documentElement.scrollHeight),
+            scrollWidth: Math.max(document.body.scrollWidth, document.documentElement.scrollWidth),
             clientHeight: document.documentElement.clientHeight || window.innerHeight,
             clientWidth: document.documentElement.clientWidth || window.innerWidth,
             scrollX: window.scrollX,
@@ -223,85 +508,304 @@ export default defineBackground(() => {
     });
 
     if (!dimensions) throw new Error('Could not get page dimensions');
+    return dimensions;
+  }
+
+  async function captureFullPage(): Promise<CaptureResult> {
+    const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+    if (!tab?.id) throw new Error('No active tab');
+
+    const dimensions = await getPageDimensions(tab.id);
+    const area = { x: 0, y: 0, width: dimensions.scrollWidth, height: dimensions.scrollHeight };
+    return captureDocumentArea(tab.id, windowIdOf(tab), area, dimensions);
+  }
+
+  // Element marked for capture by the content script; `rect` is in viewport coordinates when `fixed`
+  interface PickedElement {
+    rect: TabRect;
+    fixed: boolean;
+  }
+
+  // What the context menu knows about the right-clicked spot: the media under it, or the frame it is in
+  interface ContextMenuTarget {
+    srcUrl?: string;
+    frameUrl?: string;
+  }
+
+  // Captures exactly the bounding box of a DOM element the user picks on the page. From the context
+  // menu it captures the right-clicked element instead when it can be found: the one the content
+  // script saw (if an earlier capture injected it), else the image, video or frame under the cursor.
+  async function captureElement(context?: ContextMenuTarget): Promise<CaptureResult> {
+    const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+    if (!tab?.id) throw new Error('No active tab');
+    const tabId = tab.id;
+
+    let picked: PickedElement | null = null;
+    if (context) {
+      picked = await browser.tabs.sendMessage(tabId, { type: 'pick-context-target' }).catch(() => null)
+        ?? await markElementBySource(tabId, context);
+    }
+
+    await injectContentScript(tabId);
+    if (!picked) {
+      try {
+        await browser.tabs.sendMessage(tabId, { type: 'start-element-pick' });
+      } catch (e) {
+        throw new Error('Could not connect to the page. Please refresh and try again.');
+      }
+      picked = await waitForTabMessage(tabId, 'element-pick-complete', 'Element selection') as PickedElement;
+    }
+    const { rect, fixed } = picked;
+    const text = await collectCaptureText(tabId, fixed ? 'viewport' : 'document', { ...rect, x: Math.max(0, rect.x), y: Math.max(0, rect.y) });
+
+    return { ...await captureElementRect(tab, rect, !!fixed), text };
+  }
+
+  // Captures an element marked with [data-wxt-pick-target] from its rect: document
+  // coordinates, or viewport coordinates when the element sits in a fixed layer
+  async function captureElementRect(tab: { id?: number; windowId?: number }, rect: TabRect, fixed: boolean): Promise<CaptureResult> {
+    const tabId = tab.id!;
+
+    // Elements inside fixed layers (dialogs, drawers) don't move when the page scrolls,
+    // so they can only be captured from the current viewport
+    if (fixed) {
+      try {
+        const dimensions = await getPageDimensions(tabId);
+        const dataUrl = await browser.tabs.captureVisibleTab(windowIdOf(tab), { format: 'png' });
+        const clip: TabRect = {
+          x: Math.max(0, rect.x),
+          y: Math.max(0, rect.y),
+          width: Math.min(rect.width, dimensions.clientWidth - Math.max(0, rect.x)),
+          height: Math.min(rect.height, dimensions.clientHeight - Math.max(0, rect.y)),
+        };
+        const { images } = await stitchImages([{ dataUrl, y: 0, clip }], {
+          totalWidth: clip.width,
+          totalHeight: clip.height,
+          dpr: dimensions.devicePixelRatio,
+        });
+        return { images };
+      } finally {
+        await clearPickTarget(tabId);
+      }
+    }
+
+    const dimensions = await getPageDimensions(tabId);
+    const area = {
+      x: Math.max(0, rect.x),
+      y: Math.max(0, rect.y),
+      width: Math.min(rect.width, dimensions.scrollWidth - Math.max(0, rect.x)),
+      height: Math.min(rect.height, dimensions.scrollHeight - Math.max(0, rect.y)),
+    };
+    if (area.width <= 0 || area.height <= 0) {
+      await clearPickTarget(tabId);
+      throw new Error('The selected element has no visible size');
+    }
+
+    return captureDocumentArea(tabId, windowIdOf(tab), area, dimensions);
+  }
+
+  function windowIdOf(tab: { windowId?: number }): number {
+    return tab.windowId ?? browser.windows.WINDOW_ID_CURRENT;
+  }
+
+  async function clearPickTarget(tabId: number) {
+    await browser.scripting.executeScript({
+      target: { tabId },
+      func: () => {
+        document.querySelectorAll('[data-wxt-pick-target]').forEach(el => el.removeAttribute('data-wxt-pick-target'));
+      },
+    }).catch(() => { });
+  }
+
+  // Captures the image the user right-clicked. The original file is used when it can be
+  // fetched; otherwise the image is captured as rendered on the page.
+  async function captureImage(srcUrl: string): Promise<CaptureResult> {
+    const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+    if (!tab?.id) throw new Error('No active tab');
+
+    try {
+      const response = await fetch(srcUrl);
+      const blob = await response.blob();
+      if (response.ok && blob.type.startsWith('image/')) {
+        return { images: [await blobToDataUrl(blob)] };
+      }
+    } catch (e) {
+      console.warn('Could not fetch image, capturing it from the page instead:', e);
+    }
+
+    const found = await markElementBySource(tab.id, { srcUrl });
+    if (!found) throw new Error('Could not find the image on the page');
+    return captureElementRect(tab, found.rect, found.fixed);
+  }
+
+  // Marks the image, video or audio element showing `srcUrl`, or else the frame loading `frameUrl`,
+  // for captureElementRect and returns where it is
+  async function markElementBySource(tabId: number, { srcUrl, frameUrl }: ContextMenuTarget): Promise<PickedElement | null> {
+    if (!srcUrl && !frameUrl) return null;
+    const [injection] = await browser.scripting.executeScript({
+      target: { tabId },
+      func: (src: string | null, frameSrc: string | null) => {
+        const media = Array.from(document.querySelectorAll<HTMLImageElement | HTMLMediaElement>('img, video, audio'))
+          .find(el => src && (el.currentSrc === src || el.src === src));
+        const frame = Array.from(document.querySelectorAll<HTMLIFrameElement>('iframe, frame'))
+          .find(el => frameSrc && el.src === frameSrc);
+        const target = media || frame;
+        if (!target) return null;
+
+        let fixed = false;
+        for (let el: Element | null = target; el; el = el.parentElement) {
+          if (getComputedStyle(el).position === 'fixed') {
+            fixed = true;
+            break;
+          }
+        }
+
+        const r = target.getBoundingClientRect();
+        document.querySelectorAll('[data-wxt-pick-target]').forEach(el => el.removeAttribute('data-wxt-pick-target'));
+        target.setAttribute('data-wxt-pick-target', '');
+        return {
+          rect: {
+            x: fixed ? r.left : r.left + window.scrollX,
+            y: fixed ? r.top : r.top + window.scrollY,
+            width: r.width,
+            height: r.height,
+          },
+          fixed,
+        };
+      },
+      args: [srcUrl ?? null, frameUrl ?? null],
+    });
 
-    const { scrollHeight, clientHeight, scrollX, scrollY, devicePixelRatio: dpr } = dimensions;
+    return (injection?.result as PickedElement | null | undefined) ?? null;
+  }
+
+  // Scrolls the window over a rectangle of the document (in CSS pixels), row by row and
+  // left to right, capturing each viewport and stitching the parts that fall inside it
+  async function captureDocumentArea(tabId: number, windowId: number, area: TabRect, dimensions: PageDimensions): Promise<CaptureResult> {
+    const { clientHeight, clientWidth, scrollX, scrollY, devicePixelRatio: dpr } = dimensions;
     const originalScrollX = scrollX;
     const originalScrollY = scrollY;
 
-    const captures: { dataUrl: string; y: number }[] = [];
-    let currentY = 0;
+    const areaBottom = area.y + area.height;
+    let currentY = area.y;
+    let truncated = false;
 
     try {
+      // Pages that can't scroll sideways (e.g. overflow-x: hidden) stop short of the area's right edge
+      const [probe] = await browser.scripting.executeScript({
+        target: { tabId },
+        func: () => {
+          const { scrollX, scrollY } = window;
+          window.scrollTo(document.documentElement.scrollWidth, scrollY);
+          const maxScrollX = window.scrollX;
+          window.scrollTo(scrollX, scrollY);
+          return maxScrollX;
+        },
+      });
+      const maxScrollX = (probe?.result as number | undefined) ?? scrollX;
+      const reachableWidth = Math.min(area.width, Math.max(0, maxScrollX + clientWidth - area.x));
+      // Anything wider than the largest canvas is cut at its right edge, and the capture marked as incomplete
+      const coveredWidth = Math.min(reachableWidth, Math.floor(MAX_CANVAS_WIDTH / dpr));
+      if (coveredWidth < reachableWidth) truncated = true;
+      const areaRight = area.x + coveredWidth;
+      const stitcher = createStitcher({ totalWidth: coveredWidth, totalHeight: area.height, dpr });
+
       let iteration = 0;
-      while (currentY < scrollHeight) {
-        iteration++;
+      rows: while (currentY < areaBottom) {
+        // Walk the row left to right so areas wider than the viewport are tiled too
+        let currentX = area.x;
+        let rowScrollX: number | null = null;
+        while (currentX < areaRight) {
+          iteration++;
 
-        // Scroll to the next position
-        const actualScrollY = await new Promise<number>((resolve) => {
-          // @ts-ignore
-          chrome.scripting.executeScript(
-            {
-              target: { tabId: tab.id! },
-              func: (y: number) => {
-                window.scrollTo(0, y);
-                window.dispatchEvent(new Event('scroll'));
-                return window.scrollY;
-              },
-              args: [currentY],
-            },
+          // Scroll to the next position
+          const actualScroll = await new Promise<{ x: number; y: number }>((resolve) => {
             // @ts-ignore
-            (results) => resolve(results?.[0]?.result ?? currentY)
-          );
-        });
+            chrome.scripting.executeScript(
+              {
+                target: { tabId },
+                func: (x: number, y: number) => {
+                  window.scrollTo(x, y);
+                  window.dispatchEvent(new Event('scroll'));
+                  return { x: window.scrollX, y: window.scrollY };
+                },
+                args: [currentX, currentY],
+              },
+              // @ts-ignore
+              (results) => resolve(results?.[0]?.result ?? { x: currentX, y: currentY })
+            );
+          });
 
-        // Wait for page to settle (animations, lazy loads, and sticky transitions)
-        await new Promise(resolve => setTimeout(resolve, 800));
+          // Stop the row if the page refuses to scroll any further right (e.g. overflow-x: hidden)
+          if (rowScrollX !== null && actualScroll.x <= rowScrollX) {
+            iteration--;
+            break;
+          }
+          rowScrollX = actualScroll.x;
 
-        // On iteration 2+ we hide floating elements BEFORE we capture, in case they appeared during scroll
-        if (iteration > 1) {
-          await hideFloatingElements(tab.id!);
-          // Small delay to ensure layout shift from hiding is complete
-          await new Promise(resolve => setTimeout(resolve, 150));
-        }
+          // Wait for page to settle (animations, lazy loads, and sticky transitions)
+          await new Promise(resolve => setTimeout(resolve, 800));
+
+          // On iteration 2+ we hide floating elements BEFORE we capture, in case they appeared during scroll
+          if (iteration > 1) {
+            await hideFloatingElements(tabId);
+            // Small delay to ensure layout shift from hiding is complete
+            await new Promise(resolve => setTimeout(resolve, 150));
+          }
 
-        // Capture the visible viewport
-        const dataUrl = await new Promise<string>((resolve, reject) => {
-          // @ts-ignore
-          chrome.tabs.captureVisibleTab(tab.windowId, { format: 'png' }, (dataUrl) => {
+          // Capture the visible viewport
+          const dataUrl = await new Promise<string>((resolve, reject) => {
             // @ts-ignore
-            if (chrome.runtime.lastError) reject(new Error(chrome.runtime.lastError.message));
-            else resolve(dataUrl);
+            chrome.tabs.captureVisibleTab(windowId, { format: 'png' }, (dataUrl) => {
+              // @ts-ignore
+              if (chrome.runtime.lastError) reject(new Error(chrome.runtime.lastError.message));
+              else resolve(dataUrl);
+            });
           });
-        });
 
-        captures.push({ dataUrl, y: actualScrollY });
+          // Keep only the part of the viewport inside the area (scrollbars are cut as well)
+          const visibleLeft = Math.max(area.x, actualScroll.x);
+          const visibleTop = Math.max(area.y, actualScroll.y);
+          const visibleRight = Math.min(areaRight, actualScroll.x + clientWidth);
+          const visibleBottom = Math.min(areaBottom, actualScroll.y + clientHeight);
+          if (visibleRight > visibleLeft && visibleBottom > visibleTop) {
+            await stitcher.add({
+              dataUrl,
+              x: visibleLeft - area.x,
+              y: visibleTop - area.y,
+              clip: {
+                x: visibleLeft - actualScroll.x,
+                y: visibleTop - actualScroll.y,
+                width: visibleRight - visibleLeft,
+                height: visibleBottom - visibleTop,
+              },
+            });
+          }
 
-        // IMPORTANT: Immediately AFTER the first frame is captured, we hide fixed elements 
-        // that would otherwise overlap subsequent frames.
-        if (iteration === 1) {
-          await hideFloatingElements(tab.id!);
-          // Wait briefly after initial hide
-          await new Promise(resolve => setTimeout(resolve, 200));
+          // IMPORTANT: Immediately AFTER the first frame is captured, we hide fixed elements 
+          // that would otherwise overlap subsequent frames.
+          if (iteration === 1) {
+            await hideFloatingElements(tabId);
+            // Wait briefly after initial hide
+            await new Promise(resolve => setTimeout(resolve, 200));
+          }
+
+          currentX += clientWidth;
+          if (iteration >= MAX_CAPTURE_FRAMES && (currentX < areaRight || currentY + clientHeight < areaBottom)) {
+            truncated = true;
+            break rows;
+          }
         }
 
         currentY += clientHeight;
-        if (iteration > 50) break;
       }
 
-      if (!captures.length) throw new Error('Capture failed: No frames received');
-
-      const stitchedDataUrl = await stitchImages(captures, {
-        totalHeight: scrollHeight,
-        viewportHeight: clientHeight,
-        width: dimensions.clientWidth,
-        dpr,
-      });
-
-      return stitchedDataUrl;
+      const { images, tileHeight } = await stitcher.finish();
+      return { images, truncated, tileHeight };
     } finally {
       // @ts-ignore
       chrome.scripting.executeScript({
-        target: { tabId: tab.id! },
+        target: { tabId },
         func: (x: number, y: number) => {
           const styleId = 'screenshot-hide-floating';
           const style = document.getElementById(styleId);
@@ -313,6 +817,7 @@ export default defineBackground(() => {
             (el as HTMLElement).style.opacity = '';
             (el as HTMLElement).style.display = '';
           });
+          document.querySelectorAll('[data-wxt-pick-target]').forEach(el => el.removeAttribute('data-wxt-pick-target'));
           window.scrollTo(x, y);
         },
         args: [originalScrollX, originalScrollY],
@@ -320,6 +825,163 @@ export default defineBackground(() => {
     }
   }
 
+  // Captures an inner scrolling container (chat panes, app shells with a scrolling <main>).
+  // The user picks the container in the page, then we step through its scrollTop.
+  async function captureScrollArea(): Promise<CaptureResult> {
+    const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+    if (!tab?.id) throw new Error('No active tab');
+    const tabId = tab.id;
+
+    await injectContentScript(tabId);
+
+    try {
+      await browser.tabs.sendMessage(tabId, { type: 'start-scroll-pick' });
+    } catch (e) {
+      throw new Error('Could not connect to the page. Please refresh and try again.');
+    }
+
+    await waitForTabMessage(tabId, 'scroll-pick-complete', 'Scroll area selection');
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    const [metricsResult] = await browser.scripting.executeScript({
+      target: { tabId },
+      func: () => {
+        const el = document.querySelector('[data-wxt-scroll-target]') as HTMLElement | null;
+        if (!el) return null;
+
+        // Make sure the top of the container is on screen before measuring
+        el.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+        const rect = el.getBoundingClientRect();
+        const left = Math.max(0, rect.left + el.clientLeft);
+        const top = Math.max(0, rect.top + el.clientTop);
+
+        return {
+          clip: {
+            x: left,
+            y: top,
+            width: Math.min(el.clientWidth, window.innerWidth - left),
+            height: Math.min(el.clientHeight, window.innerHeight - top),
+          },
+          scrollHeight: el.scrollHeight,
+          scrollTop: el.scrollTop,
+          devicePixelRatio: window.devicePixelRatio,
+        };
+      },
+    });
+
+    const metrics = metricsResult?.result as {
+      clip: TabRect;
+      scrollHeight: number;
+      scrollTop: number;
+      devicePixelRatio: number;
+    } | null | undefined;
+    if (!metrics || metrics.clip.width <= 0 || metrics.clip.height <= 0) {
+      throw new Error('Could not measure the selected scroll area');
+    }
+
+    const { clip, scrollHeight, devicePixelRatio: dpr } = metrics;
+    const stitcher = createStitcher({ totalWidth: clip.width, totalHeight: scrollHeight, dpr });
+    let currentY = 0;
+    let lastScrollY: number | null = null;
+    let truncated = false;
+
+    try {
+      let iteration = 0;
+      while (currentY < scrollHeight) {
+        iteration++;
+
+        const [scrollResult] = await browser.scripting.executeScript({
+          target: { tabId },
+          func: (y: number) => {
+            const el = document.querySelector('[data-wxt-scroll-target]') as HTMLElement | null;
+            if (!el) return y;
+            el.scrollTop = y;
+            el.dispatchEvent(new Event('scroll'));
+            return el.scrollTop;
+          },
+          args: [currentY],
+        });
+        const actualScrollY = (scrollResult?.result as number | undefined) ?? currentY;
+
+        // Stop if the container refuses to scroll any further
+        if (actualScrollY === lastScrollY) break;
+        lastScrollY = actualScrollY;
+
+        // Let virtualized lists render the rows that just scrolled into view
+        await new Promise(resolve => setTimeout(resolve, 600));
+
+        const dataUrl = await browser.tabs.captureVisibleTab(tab.windowId!, { format: 'png' });
+        await stitcher.add({ dataUrl, y: actualScrollY, clip });
+
+        // Sticky headers inside the container would repeat on every frame
+        if (iteration === 1) {
+          await hideStickyInScrollTarget(tabId);
+          await new Promise(resolve => setTimeout(resolve, 150));
+        }
+
+        currentY += clip.height;
+        if (iteration >= MAX_CAPTURE_FRAMES && currentY < scrollHeight) {
+          truncated = true;
+          break;
+        }
+      }
+
+      const { images, tileHeight } = await stitcher.finish();
+      return { images, truncated, tileHeight };
+    } finally {
+      await browser.scripting.executeScript({
+        target: { tabId },
+        func: (scrollTop: number) => {
+          const style = document.getElementById('screenshot-hide-floating');
+          if (style) style.remove();
+
+          document.querySelectorAll('.wxt-screenshot-hidden').forEach(el => el.classList.remove('wxt-screenshot-hidden'));
+
+          const el = document.querySelector('[data-wxt-scroll-target]') as HTMLElement | null;
+          if (el) {
+            el.scrollTop = scrollTop;
+            el.removeAttribute('data-wxt-scroll-target');
+          }
+        },
+        args: [metrics.scrollTop],
+      }).catch(() => { });
+    }
+  }
+
+  async function hideStickyInScrollTarget(tabId: number) {
+    try {
+      await browser.scripting.executeScript({
+        target: { tabId },
+        func: () => {
+          const target = document.querySelector('[data-wxt-scroll-target]');
+          if (!target) return;
+
+          const styleId = 'screenshot-hide-floating';
+          if (!document.getElementById(styleId)) {
+            const style = document.createElement('style');
+            style.id = styleId;
+            style.textContent = `
+              .wxt-screenshot-hidden {
+                visibility: hidden !important;
+              }
+            `;
+            document.head.appendChild(style);
+          }
+
+          // Only hide descendants: the container itself often lives in a fixed app shell
+          target.querySelectorAll('*').forEach(el => {
+            const pos = getComputedStyle(el).position;
+            if (pos === 'sticky' || pos === 'fixed') {
+              el.classList.add('wxt-screenshot-hidden');
+            }
+          });
+        },
+      });
+    } catch (e) {
+      console.error('Hiding sticky elements failed:', e);
+    }
+  }
+
   async function hideFloatingElements(tabId: number) {
     try {
       // @ts-ignore
@@ -354,9 +1016,14 @@ export default defineBackground(() => {
             '.tsf'
           ];
 
+          // Never hide the layer holding a picked element, nor anything inside it
+          const keep = document.querySelector('[data-wxt-pick-target]');
+          const isKept = (el: Element) => !!keep && (el.contains(keep) || keep.contains(el));
+
           tags.forEach(sel => {
             try {
               document.querySelectorAll(sel).forEach(el => {
+                if (isKept(el)) return;
                 const s = getComputedStyle(el);
                 if (s.position === 'fixed' || s.position === 'sticky') {
                   el.classList.add('wxt-screenshot-hidden');
@@ -369,6 +1036,7 @@ export default defineBackground(() => {
 
           // Broad scan for any fixed/sticky elements or high-zindex floating items
           document.querySelectorAll('*').forEach(el => {
+            if (isKept(el)) return;
             const s = getComputedStyle(el);
             const pos = s.position;
             const zIndex = parseInt(s.zIndex) || 0;
@@ -392,81 +1060,165 @@ export default defineBackground(() => {
     }
   }
 
-  async function stitchImages(
-    captures: { dataUrl: string; y: number }[],
-    opts: { totalHeight: number; viewportHeight: number; width: number; dpr: number }
-  ): Promise<string> {
-    const bitmaps: ImageBitmap[] = [];
-    for (const capture of captures) {
-      const response = await fetch(capture.dataUrl);
-      const blob = await response.blob();
-      bitmaps.push(await createImageBitmap(blob));
-    }
+  interface StitchFrame {
+    dataUrl: string;
+    // Position of the clipped content in the stitched image (CSS pixels); frames are ordered row by row, left to right
+    x?: number;
+    y: number;
+    // Part of the viewport (in CSS pixels) holding that content
+    clip: TabRect;
+  }
 
-    const canvasWidth = bitmaps[0].width;
-    const viewportPixelHeight = bitmaps[0].height;
+  interface Stitcher {
+    // Draws the frame into its tile right away; the frame itself isn't kept
+    add(frame: StitchFrame): Promise<void>;
+    finish(): Promise<{ images: string[]; tileHeight: number }>;
+  }
 
-    // Increase SAFETY CAP to 30,000px for much longer page support
-    const MAX_CANVAS_HEIGHT = 30000;
-    const totalPixelHeight = Math.min(Math.ceil(opts.totalHeight * opts.dpr), MAX_CANVAS_HEIGHT);
+  // Stitches frames into one image, or into several tiles when the page is taller than a
+  // single canvas allows. Tiles are at most MAX_CANVAS_HEIGHT pixels high and MAX_CANVAS_AREA in area.
+  // Frames are drawn as they arrive, so long captures only hold the open tiles in memory.
+  function createStitcher(opts: { totalWidth: number; totalHeight: number; dpr: number }): Stitcher {
+    // Frames may be clipped differently (e.g. the edges of a picked element), so sizes are per frame
+    const frameSize = (frame: { clip: TabRect }) => ({
+      sourceX: Math.round(frame.clip.x * opts.dpr),
+      sourceY: Math.round(frame.clip.y * opts.dpr),
+      width: Math.round(frame.clip.width * opts.dpr),
+      height: Math.round(frame.clip.height * opts.dpr),
+    });
 
-    console.log(`Stitching ${captures.length} frames into ${canvasWidth}x${totalPixelHeight} canvas...`);
+    interface Tile { index: number; canvas: OffscreenCanvas; ctx: OffscreenCanvasRenderingContext2D }
 
-    let canvas: OffscreenCanvas;
-    try {
-      canvas = new OffscreenCanvas(canvasWidth, totalPixelHeight);
-    } catch (e) {
-      console.error('Canvas creation failed. Total height:', totalPixelHeight);
-      throw new Error('Image too large: The screenshot exceeds browser limits. Try capturing a smaller area.');
-    }
-    const ctx = canvas.getContext('2d', { willReadFrequently: true });
-    if (!ctx) throw new Error('Could not create stitching canvas context');
-
-    for (let i = 0; i < bitmaps.length; i++) {
-      const bitmap = bitmaps[i];
-      const scrollY = captures[i].y * opts.dpr;
-
-      // Stop drawing if we exceed the safety cap
-      if (scrollY >= MAX_CANVAS_HEIGHT) break;
-
-      if (i === 0) {
-        // First frame: draw full viewport
-        const drawHeight = Math.min(viewportPixelHeight, MAX_CANVAS_HEIGHT);
-        ctx.drawImage(bitmap, 0, 0, bitmap.width, drawHeight, 0, 0, bitmap.width, drawHeight);
-      } else {
-        // Subsequent frames: anchor exactly at the end of the previous frame
-        const prevScrollY = captures[i - 1].y * opts.dpr;
-        const prevEndY = Math.round(prevScrollY + viewportPixelHeight);
-
-        // Calculate how many pixels of current frame we already captured in previous frames
+    // Per-tile limit: taller pages continue in the next tile instead of being cut off.
+    // The sizes are set by the first frame.
+    const totalPixelHeight = Math.max(1, Math.ceil(opts.totalHeight * opts.dpr));
+    let totalPixelWidth = 0;
+    let tileHeight = MAX_CANVAS_HEIGHT;
+
+    const createTile = (index: number): Tile => {
+      const height = Math.min(tileHeight, totalPixelHeight - index * tileHeight);
+      let canvas: OffscreenCanvas;
+      try {
+        canvas = new OffscreenCanvas(totalPixelWidth, height);
+      } catch (e) {
+        console.error('Canvas creation failed. Size:', totalPixelWidth, height);
+        throw new Error('Image too large: The screenshot exceeds browser limits. Try capturing a smaller area.');
+      }
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) throw new Error('Could not create stitching canvas context');
+      return { index, canvas, ctx };
+    };
+
+    const finishTile = async (tile: Tile) => {
+      const blob = await tile.canvas.convertToBlob({ type: 'image/png' });
+      return blobToDataUrl(blob);
+    };
+
+    const tiles: string[] = [];
+    // A frame is never taller than a tile, so at most two tiles are open at once
+    let current: Tile | null = null;
+    let next: Tile | null = null;
+    let frameCount = 0;
+
+    // Previous frame, without its image
+    let prev: Omit<StitchFrame, 'dataUrl'> | null = null;
+    // Where the current row starts on the full page, and how much of its frames the previous row already covered
+    let rowDrawY = 0;
+    let rowOverlapY = 0;
+
+    const add = async (frame: StitchFrame) => {
+      const size = frameSize(frame);
+      if (!current) {
+        totalPixelWidth = Math.min(Math.max(size.width, Math.round(opts.totalWidth * opts.dpr)), MAX_CANVAS_WIDTH);
+        tileHeight = Math.min(MAX_CANVAS_HEIGHT, Math.floor(MAX_CANVAS_AREA / totalPixelWidth));
+        console.log(`Stitching into ${totalPixelWidth}x${totalPixelHeight} (${Math.ceil(totalPixelHeight / tileHeight)} tile(s))...`);
+        current = createTile(0);
+      }
+
+      const scrollX = (frame.x ?? 0) * opts.dpr;
+      const scrollY = frame.y * opts.dpr;
+      const startsRow = !prev || prev.y !== frame.y;
+
+      if (startsRow && prev) {
+        // Anchor the new row exactly at the end of the previous one.
         // We use Math.ceil to ensure we cover any sub-pixel gaps
-        const overlap = Math.max(0, Math.ceil(prevEndY - scrollY));
-
-        // Final coordinates must be integers to prevent blurring
-        // We anchor exactly where the previous frame ended
-        const drawY = prevEndY;
-        const availableHeight = Math.round(viewportPixelHeight - overlap);
-        const drawHeight = Math.min(availableHeight, Math.round(MAX_CANVAS_HEIGHT - drawY));
-
-        if (drawHeight > 0) {
-          ctx.drawImage(
-            bitmap,
-            0, overlap, bitmap.width, drawHeight,
-            0, drawY, bitmap.width, drawHeight
-          );
-        }
+        const prevEndY = Math.round(prev.y * opts.dpr + frameSize(prev).height);
+        rowOverlapY = Math.max(0, Math.ceil(prevEndY - scrollY));
+        rowDrawY = prevEndY;
       }
-    }
 
-    const blob = await canvas.convertToBlob({ type: 'image/png' });
-    return blobToDataUrl(blob);
+      // Same idea horizontally: continue where the previous frame of this row ended
+      let drawX = 0;
+      let overlapX = 0;
+      if (!startsRow && prev) {
+        const prevEndX = Math.round((prev.x ?? 0) * opts.dpr + frameSize(prev).width);
+        overlapX = Math.max(0, Math.ceil(prevEndX - scrollX));
+        drawX = prevEndX;
+      }
+
+      prev = { x: frame.x, y: frame.y, clip: frame.clip };
+      if (rowDrawY >= totalPixelHeight) return;
+
+      // Close every tile the new row has moved past
+      while (rowDrawY >= (current.index + 1) * tileHeight) {
+        tiles.push(await finishTile(current));
+        current = next ?? createTile(current.index + 1);
+        next = null;
+      }
+
+      const bitmap = await loadFrameBitmap(frame.dataUrl);
+      frameCount++;
+
+      // Final coordinates must be integers to prevent blurring
+      const drawWidth = Math.min(size.width - overlapX, bitmap.width - size.sourceX - overlapX, totalPixelWidth - drawX);
+      const drawHeight = Math.min(size.height - rowOverlapY, bitmap.height - size.sourceY - rowOverlapY, totalPixelHeight - rowDrawY);
+      if (drawWidth <= 0 || drawHeight <= 0) {
+        bitmap.close();
+        return;
+      }
+
+      // Frames crossing a tile boundary are drawn into both tiles; each canvas clips its own part
+      const targets = [current];
+      if (rowDrawY + drawHeight > (current.index + 1) * tileHeight) {
+        next = next ?? createTile(current.index + 1);
+        targets.push(next);
+      }
+
+      for (const tile of targets) {
+        tile.ctx.drawImage(
+          bitmap,
+          size.sourceX + overlapX, size.sourceY + rowOverlapY, drawWidth, drawHeight,
+          drawX, rowDrawY - tile.index * tileHeight, drawWidth, drawHeight
+        );
+      }
+
+      bitmap.close();
+    };
+
+    const finish = async () => {
+      if (!current || !frameCount) throw new Error('Capture failed: No frames received');
+      console.log(`Stitched ${frameCount} frames`);
+      tiles.push(await finishTile(current));
+      if (next) tiles.push(await finishTile(next));
+      return { images: tiles, tileHeight };
+    };
+
+    return { add, finish };
   }
 
-  function blobToDataUrl(blob: Blob): Promise<string> {
-    return new Promise((resolve) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.readAsDataURL(blob);
-    });
+  // Stitches frames that are already at hand
+  async function stitchImages(
+    captures: StitchFrame[],
+    opts: { totalWidth: number; totalHeight: number; dpr: number }
+  ): Promise<{ images: string[]; tileHeight: number }> {
+    const stitcher = createStitcher(opts);
+    for (const frame of captures) await stitcher.add(frame);
+    return stitcher.finish();
+  }
+
+  async function loadFrameBitmap(dataUrl: string): Promise<ImageBitmap> {
+    const response = await fetch(dataUrl);
+    const blob = await response.blob();
+    return createImageBitmap(blob);
   }
 });
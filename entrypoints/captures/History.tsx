@@ -0,0 +1,283 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import './history.css';
+import logo from '../../assets/logo.png';
+import { createProject, PROJECT_EXTENSION } from '../editor/project';
+import { blurRegionOf, burnInBlurRegions } from '../editor/blur';
+import type { DrawingElement } from '../editor/Editor';
+import { IconDownload, IconSave, IconTrash, IconSearch, IconHistory, IconCheck } from '../editor/Icons';
+import {
+    listCaptures, getCaptureImages, deleteCaptures, getHistoryLimit, setHistoryLimit, getRecordPageText, setRecordPageText,
+    blobToDataUrl, dataUrlToBlob, captureEditorUrl, CaptureEntry, CAPTURE_MODE_LABELS, DEFAULT_HISTORY_LIMIT
+} from '../../utils/captureHistory';
+
+// Strips characters that aren't allowed in file names
+const safeFilename = (name: string) => name.replace(/[\\/:*?"<>|\x00-\x1f]+/g, '-').replace(/\s+/g, ' ').trim().slice(0, 100) || 'screenshot';
+
+const domainOf = (url?: string) => {
+    try { return url ? new URL(url).hostname : ''; } catch { return ''; }
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = filename;
+    link.href = url;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// PNG of the image with the blur regions drawn into its pixels
+const burnInRedactions = async (image: Blob, redactions: DrawingElement[]) => {
+    const bitmap = await createImageBitmap(image);
+    const canvas = burnInBlurRegions(bitmap, redactions.map(blurRegionOf));
+    bitmap.close();
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('The image could not be encoded');
+    return blob;
+};
+
+function History() {
+    const [entries, setEntries] = useState<CaptureEntry[] | null>(null);
+    const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+    const [query, setQuery] = useState('');
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [limit, setLimit] = useState(DEFAULT_HISTORY_LIMIT);
+    const [recordText, setRecordText] = useState(true);
+    const [status, setStatus] = useState('');
+
+    const refresh = async () => {
+        const list = await listCaptures();
+        setEntries(list);
+        setSelectedIds(prev => prev.filter(id => list.some(entry => entry.id === id)));
+        setThumbnails(prev => {
+            Object.values(prev).forEach(url => URL.revokeObjectURL(url));
+            return Object.fromEntries(list.map(entry => [entry.id, URL.createObjectURL(entry.thumbnail)]));
+        });
+    };
+
+    useEffect(() => {
+        refresh().catch(err => {
+            console.error('History: Failed to load captures:', err);
+            setEntries([]);
+            setStatus('The capture history could not be loaded.');
+        });
+        getHistoryLimit().then(setLimit).catch(() => { });
+        getRecordPageText().then(setRecordText).catch(() => { });
+    }, []);
+
+    const filtered = useMemo(() => {
+        const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+        if (!entries || !terms.length) return entries || [];
+        return entries.filter(entry => {
+            const text = [entry.title, entry.url, entry.name, CAPTURE_MODE_LABELS[entry.mode] || entry.mode, new Date(entry.createdAt).toLocaleString()]
+                .join(' ')
+                .toLowerCase();
+            return terms.every(term => text.includes(term));
+        });
+    }, [entries, query]);
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+    };
+
+    const allSelected = filtered.length > 0 && filtered.every(entry => selectedIds.includes(entry.id));
+
+    const openInEditor = (id: string) => {
+        browser.tabs.create({ url: captureEditorUrl(id) });
+    };
+
+    const handleDelete = async (ids: string[]) => {
+        if (!ids.length) return;
+        if (!confirm(ids.length === 1 ? 'Delete this capture from the history?' : `Delete ${ids.length} captures from the history?`)) return;
+        await deleteCaptures(ids);
+        await refresh();
+        setStatus(`${ids.length} capture(s) deleted`);
+    };
+
+    const baseName = (entry: CaptureEntry) => {
+        const date = new Date(entry.createdAt).toISOString().slice(0, 19).replace('T', '-').replace(/:/g, '-');
+        return safeFilename(`${entry.name || entry.title || domainOf(entry.url) || 'screenshot'}-${date}`);
+    };
+
+    // Downloads the captured images without annotations, except blur regions (hidden ones too),
+    // which are burnt in so an export never shows what they redact
+    const exportImages = async (ids: string[]) => {
+        let count = 0;
+        let failed = 0;
+        for (const entry of (entries || []).filter(e => ids.includes(e.id))) {
+            const stored = await getCaptureImages(entry.id);
+            if (!stored) continue;
+            for (const [i, image] of stored.images.entries()) {
+                const suffix = stored.images.length > 1 ? `-${i + 1}` : '';
+                const saved = entry.annotations?.pages[i];
+                const redactions = (saved?.elements || []).filter(el => el.type === 'blur');
+                if (!redactions.length) {
+                    const extension = image.blob.type === 'image/jpeg' ? 'jpg' : image.blob.type.replace('image/', '') || 'png';
+                    downloadBlob(image.blob, `${baseName(entry)}${suffix}.${extension}`);
+                    count++;
+                    continue;
+                }
+                try {
+                    // The regions are placed on the rotated or flipped image when there is one
+                    const base = saved?.image ? await dataUrlToBlob(saved.image) : image.blob;
+                    downloadBlob(await burnInRedactions(base, redactions), `${baseName(entry)}${suffix}.png`);
+                    count++;
+                } catch (err) {
+                    console.error('History: Failed to redact an image for export:', err);
+                    failed++;
+                }
+            }
+        }
+        setStatus(failed
+            ? `${count} image(s) exported, ${failed} skipped because their redactions could not be applied`
+            : `${count} image(s) exported`);
+    };
+
+    // Downloads each capture as a project file, keeping its annotations editable
+    const exportProjects = async (ids: string[]) => {
+        let count = 0;
+        for (const entry of (entries || []).filter(e => ids.includes(e.id))) {
+            const stored = await getCaptureImages(entry.id);
+            if (!stored?.images.length) continue;
+            const saved = entry.annotations;
+            const pages = await Promise.all(stored.images.map(async (image, i) => ({
+                image: saved?.pages[i]?.image || await blobToDataUrl(image.blob),
+                label: image.label,
+                url: image.url,
+                title: image.title,
+                elements: saved?.pages[i]?.elements || [],
+                crop: saved?.pages[i]?.crop || null,
+            })));
+            const project = createProject({
+                name: entry.name,
+                mode: entry.mode,
+                groups: saved?.groups || [],
+                pages,
+                activePage: Math.min(saved?.activePage ?? 0, pages.length - 1),
+            });
+            downloadBlob(new Blob([JSON.stringify(project)], { type: 'application/json' }), `${baseName(entry)}${PROJECT_EXTENSION}`);
+            count++;
+        }
+        setStatus(`${count} project(s) exported`);
+    };
+
+    const updateLimit = async (value: number) => {
+        const next = Math.min(1000, Math.max(1, Math.round(value) || 1));
+        setLimit(next);
+        const overflow = (entries?.length || 0) - next;
+        if (overflow > 0 && !confirm(`This removes the ${overflow} oldest capture(s) from the history. Continue?`)) {
+            setLimit(await getHistoryLimit());
+            return;
+        }
+        await setHistoryLimit(next);
+        await refresh();
+    };
+
+    const updateRecordText = async (record: boolean) => {
+        if (!record && !confirm('This also deletes the page text recorded with earlier captures, so Find Sensitive Data no longer works on them. Continue?')) return;
+        setRecordText(record);
+        await setRecordPageText(record);
+        setStatus(record ? 'Page text will be recorded with new captures' : 'Page text is no longer recorded');
+    };
+
+    return (
+        <div className="history-container">
+            <header className="history-header">
+                <div className="header-left">
+                    <img src={logo} alt="Screenshot Editor Pro" className="brand-logo" />
+                    <h1><IconHistory /> Capture History</h1>
+                </div>
+                <div className="history-search">
+                    <IconSearch />
+                    <input
+                        type="search"
+                        placeholder="Search by title, site, mode or date"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        autoFocus
+                    />
+                </div>
+                <label className="history-limit" title="Older captures are removed automatically">
+                    Keep the last
+                    <input
+                        type="number"
+                        min={1}
+                        max={1000}
+                        value={limit}
+                        onChange={(e) => setLimit(parseInt(e.target.value) || 1)}
+                        onBlur={(e) => updateLimit(parseInt(e.target.value))}
+                        onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                    />
+                    captures
+                </label>
+                <label className="history-record-text" title="Page text is kept with each capture so Find Sensitive Data can scan it">
+                    <input type="checkbox" checked={recordText} onChange={(e) => updateRecordText(e.target.checked)} />
+                    Record page text
+                </label>
+            </header>
+
+            <div className="history-toolbar">
+                <label className="history-select-all">
+                    <input
+                        type="checkbox"
+                        checked={allSelected}
+                        onChange={() => setSelectedIds(allSelected ? [] : filtered.map(entry => entry.id))}
+                        disabled={!filtered.length}
+                    />
+                    {selectedIds.length ? `${selectedIds.length} selected` : 'Select all'}
+                </label>
+                <div className="history-bulk-actions">
+                    <button onClick={() => exportImages(selectedIds)} disabled={!selectedIds.length} title="Download the images with their blur regions applied">
+                        <IconDownload /> Export Images
+                    </button>
+                    <button onClick={() => exportProjects(selectedIds)} disabled={!selectedIds.length} title={`Download ${PROJECT_EXTENSION} projects with their annotations`}>
+                        <IconSave /> Export Projects
+                    </button>
+                    <button className="danger" onClick={() => handleDelete(selectedIds)} disabled={!selectedIds.length}>
+                        <IconTrash /> Delete
+                    </button>
+                </div>
+                {status && <span className="history-status">{status}</span>}
+            </div>
+
+            {entries === null ? (
+                <div className="history-empty">Loading...</div>
+            ) : !filtered.length ? (
+                <div className="history-empty">
+                    {entries.length ? 'No captures match your search.' : 'No captures yet. Everything you capture is kept here.'}
+                </div>
+            ) : (
+                <div className="history-grid">
+                    {filtered.map(entry => {
+                        const annotationCount = entry.annotations?.pages.reduce((sum, page) => sum + page.elements.length, 0) || 0;
+                        return (
+                            <div key={entry.id} className={`history-card ${selectedIds.includes(entry.id) ? 'selected' : ''}`}>
+                                <button className="history-thumb" onClick={() => openInEditor(entry.id)} title="Open in editor">
+                                    {thumbnails[entry.id] && <img src={thumbnails[entry.id]} alt="" />}
+                                </button>
+                                <button className="history-check" onClick={() => toggleSelected(entry.id)} title="Select">
+                                    {selectedIds.includes(entry.id) && <IconCheck />}
+                                </button>
+                                <div className="history-info">
+                                    <span className="history-title" title={entry.name || entry.title}>{entry.name || entry.title || 'Untitled'}</span>
+                                    <span className="history-url" title={entry.url}>{domainOf(entry.url) || entry.url || '—'}</span>
+                                    <div className="history-meta">
+                                        <span className="history-mode">{CAPTURE_MODE_LABELS[entry.mode] || entry.mode}</span>
+                                        <span>{new Date(entry.createdAt).toLocaleString()}</span>
+                                    </div>
+                                    <div className="history-meta">
+                                        <span>{entry.width} &times; {entry.height}{entry.pageCount > 1 ? ` · ${entry.pageCount} images` : ''}</span>
+                                        {annotationCount > 0 && <span>{annotationCount} annotation(s)</span>}
+                                    </div>
+                                </div>
+                                <button className="history-delete" onClick={() => handleDelete([entry.id])} title="Delete"><IconTrash /></button>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default History;
@@ -1,4 +1,5 @@
 import './selection.css';
+import type { CaptureText, TextRun, TextWord } from './editor/sensitive';
 
 const SELECTION_CSS = `
 .screenshot-selection-overlay {
@@ -84,6 +85,43 @@ const SELECTION_CSS = `
 .screenshot-selection-btn.confirm:hover { background: #0052cc !important; }
 .screenshot-selection-btn.cancel { background: #f1f1f2 !important; color: #333 !important; }
 .screenshot-selection-btn.cancel:hover { background: #e2e2e4 !important; }
+.screenshot-selection-picker {
+  position: fixed !important;
+  top: 0 !important;
+  left: 0 !important;
+  width: 100vw !important;
+  height: 100vh !important;
+  z-index: 2147483640 !important;
+  pointer-events: none !important;
+}
+.screenshot-selection-highlight {
+  position: fixed !important;
+  border: 2px solid #0066ff !important;
+  background: rgba(0, 102, 255, 0.08) !important;
+  z-index: 2147483645 !important;
+  pointer-events: none !important;
+  box-sizing: border-box !important;
+}
+body.wxt-screenshot-picking, body.wxt-screenshot-picking * { cursor: crosshair !important; }
+.screenshot-selection-countdown {
+  position: fixed !important;
+  top: 24px !important;
+  right: 24px !important;
+  width: 72px !important;
+  height: 72px !important;
+  border-radius: 50% !important;
+  background: rgba(0, 0, 0, 0.75) !important;
+  color: #fff !important;
+  display: flex !important;
+  align-items: center !important;
+  justify-content: center !important;
+  font-size: 32px !important;
+  font-weight: 700 !important;
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif !important;
+  z-index: 2147483647 !important;
+  pointer-events: none !important;
+  box-shadow: 0 4px 20px rgba(0,0,0,0.3) !important;
+}
 `;
 
 export default defineContentScript({
@@ -111,6 +149,13 @@ export default defineContentScript({
     let offsetY = 0;
     let selectRect = { x: 0, y: 0, w: 0, h: 0 };
 
+    // Last element the page was right-clicked on, for "Capture this element" in the context menu;
+    // only known once the script was injected by an earlier capture
+    let contextTarget: Element | null = null;
+    document.addEventListener('contextmenu', (e) => {
+      contextTarget = e.target instanceof Element ? e.target : null;
+    }, true);
+
     function applyStyles() {
       let existingStyle = document.getElementById('screenshot-selection-styles');
       if (!existingStyle) {
@@ -123,10 +168,29 @@ export default defineContentScript({
       }
     }
 
-    browser.runtime.onMessage.addListener((message) => {
+    browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
+      if (message.type === 'collect-text') {
+        sendResponse(collectText(message.space, message.area));
+        return true;
+      }
+
+      if (message.type === 'pick-context-target') {
+        sendResponse(contextTarget?.isConnected ? markPickTarget(contextTarget) : null);
+        return true;
+      }
+
       if (message.type === 'start-selection') {
         applyStyles();
         createSelectionOverlay();
+      } else if (message.type === 'start-scroll-pick') {
+        applyStyles();
+        startPicker('scroll');
+      } else if (message.type === 'start-element-pick') {
+        applyStyles();
+        startPicker('element');
+      } else if (message.type === 'start-countdown') {
+        applyStyles();
+        startCountdown(message.seconds);
       } else if (message.type === 'cleanup-selection') {
         cleanup();
       }
@@ -294,6 +358,298 @@ export default defineContentScript({
       }
     }
 
+    let countdownTimer: number | null = null;
+
+    // Pointer-events are off so hover menus and tooltips stay open underneath
+    function startCountdown(seconds: number) {
+      cleanup();
+
+      let remaining = seconds;
+      const badge = document.createElement('div');
+      badge.className = 'screenshot-selection-countdown';
+      badge.id = 'screenshot-selection-root';
+      badge.textContent = String(remaining);
+      document.body.appendChild(badge);
+
+      countdownTimer = window.setInterval(() => {
+        remaining--;
+        if (remaining > 0) {
+          badge.textContent = String(remaining);
+          return;
+        }
+
+        cleanup();
+        // Wait for the page to repaint without the badge before the tab is captured
+        requestAnimationFrame(() => requestAnimationFrame(() => {
+          browser.runtime.sendMessage({ type: 'countdown-complete' });
+        }));
+      }, 1000);
+    }
+
+    type PickMode = 'scroll' | 'element';
+    let pickMode: PickMode = 'scroll';
+    let pickTarget: HTMLElement | null = null;
+    let pickHovered: Element | null = null;
+    // Children we walked up from, so walking back down retraces the same path
+    let pickTrail: HTMLElement[] = [];
+
+    function startPicker(mode: PickMode) {
+      cleanup();
+      pickMode = mode;
+
+      overlay = document.createElement('div');
+      overlay.className = 'screenshot-selection-picker';
+      overlay.id = 'screenshot-selection-root';
+      document.body.appendChild(overlay);
+      document.body.classList.add('wxt-screenshot-picking');
+
+      hint = document.createElement('div');
+      hint.className = 'screenshot-selection-hint';
+      hint.textContent = mode === 'scroll'
+        ? 'Hover the area that scrolls and click to capture it. Esc to cancel.'
+        : 'Click an element to capture it. ↑/↓ or scroll wheel: parent/child. Esc to cancel.';
+      overlay.appendChild(hint);
+
+      selectionBox = document.createElement('div');
+      selectionBox.className = 'screenshot-selection-highlight';
+      selectionBox.style.display = 'none';
+      overlay.appendChild(selectionBox);
+
+      sizeLabel = document.createElement('div');
+      sizeLabel.className = 'screenshot-selection-size';
+      sizeLabel.style.display = 'none';
+      overlay.appendChild(sizeLabel);
+
+      // Capture phase so the page never sees the clicks meant for the picker
+      document.addEventListener('mousemove', handlePickMove, true);
+      document.addEventListener('mousedown', swallowPickEvent, true);
+      document.addEventListener('mouseup', swallowPickEvent, true);
+      document.addEventListener('click', handlePickClick, true);
+      document.addEventListener('keydown', handlePickKeyDown, true);
+      document.addEventListener('wheel', handlePickWheel, { capture: true, passive: false });
+    }
+
+    function findScrollableAncestor(start: Element | null): HTMLElement | null {
+      let el = start as HTMLElement | null;
+      while (el && el !== document.body && el !== document.documentElement) {
+        const style = getComputedStyle(el);
+        const scrollsY = /(auto|scroll|overlay)/.test(style.overflowY);
+        if (scrollsY && el.scrollHeight > el.clientHeight + 1) return el;
+        el = el.parentElement;
+      }
+      return null;
+    }
+
+    function describeElement(el: Element): string {
+      let label = el.tagName.toLowerCase();
+      if (el.id) label += `#${el.id}`;
+      const classes = Array.from(el.classList).slice(0, 2);
+      if (classes.length) label += `.${classes.join('.')}`;
+      return label;
+    }
+
+    function handlePickMove(e: MouseEvent) {
+      const hovered = document.elementFromPoint(e.clientX, e.clientY);
+
+      if (pickMode === 'scroll') {
+        pickTarget = findScrollableAncestor(hovered);
+      } else {
+        // Keep the parent/child the user walked to until the pointer reaches another element
+        if (hovered === pickHovered) return;
+        pickHovered = hovered;
+        pickTrail = [];
+        pickTarget = hovered as HTMLElement | null;
+      }
+
+      updatePickHighlight();
+    }
+
+    function updatePickHighlight() {
+      if (!selectionBox || !sizeLabel) return;
+
+      if (!pickTarget) {
+        selectionBox.style.display = 'none';
+        sizeLabel.style.display = 'none';
+        return;
+      }
+
+      const rect = pickTarget.getBoundingClientRect();
+      selectionBox.style.display = 'block';
+      selectionBox.style.left = `${rect.left}px`;
+      selectionBox.style.top = `${rect.top}px`;
+      selectionBox.style.width = `${rect.width}px`;
+      selectionBox.style.height = `${rect.height}px`;
+
+      sizeLabel.style.display = 'block';
+      sizeLabel.textContent = pickMode === 'scroll'
+        ? `${Math.round(pickTarget.clientWidth)} × ${Math.round(pickTarget.scrollHeight)}`
+        : `${describeElement(pickTarget)}  ${Math.round(rect.width)} × ${Math.round(rect.height)}`;
+      sizeLabel.style.left = `${Math.max(0, rect.left)}px`;
+      sizeLabel.style.top = `${Math.max(0, rect.top) + 8}px`;
+    }
+
+    function pickParent() {
+      const parent = pickTarget?.parentElement;
+      if (!pickTarget || !parent || pickTarget === document.body) return;
+      pickTrail.push(pickTarget);
+      pickTarget = parent;
+      updatePickHighlight();
+    }
+
+    function pickChild() {
+      if (!pickTarget) return;
+      const child = pickTrail.pop() ?? pickTarget.firstElementChild as HTMLElement | null;
+      if (!child) return;
+      pickTarget = child;
+      updatePickHighlight();
+    }
+
+    function swallowPickEvent(e: MouseEvent) {
+      e.preventDefault();
+      e.stopPropagation();
+    }
+
+    function handlePickClick(e: MouseEvent) {
+      swallowPickEvent(e);
+      confirmPick();
+    }
+
+    function confirmPick() {
+      if (!pickTarget) return;
+      const target = pickTarget;
+
+      if (pickMode === 'scroll') {
+        document.querySelectorAll('[data-wxt-scroll-target]').forEach(el => el.removeAttribute('data-wxt-scroll-target'));
+        target.setAttribute('data-wxt-scroll-target', '');
+        cleanup();
+        browser.runtime.sendMessage({ type: 'scroll-pick-complete' });
+        return;
+      }
+
+      const picked = markPickTarget(target);
+      cleanup();
+      browser.runtime.sendMessage({ type: 'element-pick-complete', ...picked });
+    }
+
+    // Marks the element for the capture and returns where it is
+    function markPickTarget(target: Element) {
+      // Inside a fixed layer the element stays put while the page scrolls,
+      // so its rect is reported in viewport instead of document coordinates
+      let fixed = false;
+      for (let el: Element | null = target; el; el = el.parentElement) {
+        if (getComputedStyle(el).position === 'fixed') {
+          fixed = true;
+          break;
+        }
+      }
+
+      const r = target.getBoundingClientRect();
+      const rect = {
+        x: fixed ? r.left : r.left + window.scrollX,
+        y: fixed ? r.top : r.top + window.scrollY,
+        width: r.width,
+        height: r.height,
+      };
+
+      document.querySelectorAll('[data-wxt-pick-target]').forEach(el => el.removeAttribute('data-wxt-pick-target'));
+      target.setAttribute('data-wxt-pick-target', '');
+      return { rect, fixed };
+    }
+
+    function handlePickKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        const type = pickMode === 'scroll' ? 'scroll-pick-complete' : 'element-pick-complete';
+        cleanup();
+        browser.runtime.sendMessage({ type, canceled: true });
+        return;
+      }
+
+      if (pickMode !== 'element') return;
+
+      if (e.key === 'ArrowUp' || e.key === 'ArrowLeft') {
+        e.preventDefault();
+        pickParent();
+      } else if (e.key === 'ArrowDown' || e.key === 'ArrowRight') {
+        e.preventDefault();
+        pickChild();
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        confirmPick();
+      }
+    }
+
+    function handlePickWheel(e: WheelEvent) {
+      if (pickMode !== 'element') return;
+      e.preventDefault();
+      if (e.deltaY < 0) pickParent();
+      else if (e.deltaY > 0) pickChild();
+    }
+
+    // Upper bound on collected words so huge pages don't stall the capture
+    const MAX_TEXT_WORDS = 50000;
+
+    // Visible words inside the captured area (viewport or document coordinates), relative to its
+    // top-left corner, so the editor can look for sensitive data without reading the image
+    function collectText(space: 'viewport' | 'document', area?: { x: number; y: number; width: number; height: number }): CaptureText {
+      const offsetX = space === 'document' ? window.scrollX : 0;
+      const offsetY = space === 'document' ? window.scrollY : 0;
+      const bounds = area || (space === 'document'
+        ? { x: 0, y: 0, width: document.documentElement.scrollWidth, height: document.documentElement.scrollHeight }
+        : { x: 0, y: 0, width: window.innerWidth, height: window.innerHeight });
+
+      const inBounds = (rect: DOMRect) => {
+        const x = rect.left + offsetX - bounds.x;
+        const y = rect.top + offsetY - bounds.y;
+        return rect.width > 0 && rect.height > 0 && x + rect.width > 0 && y + rect.height > 0 && x < bounds.width && y < bounds.height;
+      };
+
+      const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT, {
+        acceptNode: (node) => {
+          const parent = node.parentElement;
+          if (!parent || !node.textContent?.trim()) return NodeFilter.FILTER_REJECT;
+          if (parent.closest('script, style, noscript, template, #screenshot-selection-root')) return NodeFilter.FILTER_REJECT;
+          return NodeFilter.FILTER_ACCEPT;
+        },
+      });
+
+      const range = document.createRange();
+      const runs: TextRun[] = [];
+      let wordCount = 0;
+
+      while (walker.nextNode() && wordCount < MAX_TEXT_WORDS) {
+        const node = walker.currentNode as Text;
+        range.selectNodeContents(node);
+        if (!inBounds(range.getBoundingClientRect())) continue;
+
+        const text = node.textContent || '';
+        const words: TextWord[] = [];
+        for (const match of text.matchAll(/\S+/g)) {
+          const start = match.index ?? 0;
+          const end = start + match[0].length;
+          range.setStart(node, start);
+          range.setEnd(node, end);
+          const rect = range.getBoundingClientRect();
+          if (!inBounds(rect)) continue;
+          words.push({
+            start,
+            end,
+            x: rect.left + offsetX - bounds.x,
+            y: rect.top + offsetY - bounds.y,
+            width: rect.width,
+            height: rect.height,
+          });
+        }
+
+        if (words.length) {
+          runs.push({ text, words });
+          wordCount += words.length;
+        }
+      }
+
+      return { dpr: window.devicePixelRatio || 1, runs };
+    }
+
     function cleanup() {
       console.log('Running robust cleanup...');
 
@@ -332,6 +688,22 @@ export default defineContentScript({
       document.removeEventListener('mouseup', handleMouseUp);
       document.removeEventListener('keydown', handleKeyDown);
 
+      document.removeEventListener('mousemove', handlePickMove, true);
+      document.removeEventListener('mousedown', swallowPickEvent, true);
+      document.removeEventListener('mouseup', swallowPickEvent, true);
+      document.removeEventListener('click', handlePickClick, true);
+      document.removeEventListener('keydown', handlePickKeyDown, true);
+      document.removeEventListener('wheel', handlePickWheel, { capture: true });
+      document.body.classList.remove('wxt-screenshot-picking');
+      pickTarget = null;
+      pickHovered = null;
+      pickTrail = [];
+
+      if (countdownTimer !== null) {
+        clearInterval(countdownTimer);
+        countdownTimer = null;
+      }
+
       isSelecting = false;
       isResizing = false;
       isMoving = false;
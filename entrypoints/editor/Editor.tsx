@@ -1,7 +1,12 @@
 import React, { useEffect, useRef, useState, useCallback, useLayoutEffect } from 'react';
-import { Stage, Layer, Image as KonvaImage, Line, Arrow, Rect, Ellipse, Text, Transformer } from 'react-konva';
+import { Stage, Layer, Image as KonvaImage, Line, Arrow, Rect, Ellipse, Circle, Group, Text, Transformer } from 'react-konva';
 import Konva from 'konva';
 import './editor.css';
+import { renderBlurRegion, blurRegionOf, burnInBlurRegions, BlurMode, BlurShape, BlurRegion, DEFAULT_BLUR_STRENGTH } from './blur';
+import { renderFrame, FrameSettings, DEFAULT_FRAME, FRAME_ASPECTS } from './frame';
+import { findSensitiveData, compileCustomPatterns, CaptureText, SensitiveKind, SENSITIVE_LABELS } from './sensitive';
+import { createProject, parseProject, ProjectPage, PROJECT_EXTENSION } from './project';
+import { addCapture, getCapture, getCaptureImages, getSession, saveSession, replaceCaptureImage, blobToDataUrl, dataUrlToBlob, SavedPage } from '../../utils/captureHistory';
 import logo from '../../assets/logo.png';
 import {
     IconUndo, IconRedo, IconCopy, IconSave, IconDownload,
@@ -9,12 +14,16 @@ import {
     IconCircle, IconType, IconBlur, IconTrash, IconEye,
     IconEyeOff, IconPlus, IconMinus, IconRotateCcw, IconCheck, IconClose,
     IconAlert, IconAlignLeft, IconAlignCenter, IconAlignRight, IconCase,
-    IconBookmark, IconLayers, IconSettings, IconRefresh, IconImage
+    IconBookmark, IconLayers, IconSettings, IconRefresh, IconImage,
+    IconChevronLeft, IconChevronRight, IconPointer, IconChevronDown,
+    IconFolder, IconGroup, IconUngroup, IconBringToFront, IconSendToBack,
+    IconLock, IconUnlock, IconStep, IconShield, IconRotateCw,
+    IconFlipHorizontal, IconFlipVertical, IconFrame
 } from './Icons';
 
-type Tool = 'crop' | 'pencil' | 'line' | 'arrow' | 'rectangle' | 'circle' | 'text' | 'blur' | 'image';
+type Tool = 'select' | 'crop' | 'pencil' | 'line' | 'arrow' | 'rectangle' | 'circle' | 'text' | 'step' | 'blur' | 'image';
 
-interface DrawingElement {
+export interface DrawingElement {
     id: string;
     type: Tool;
     points?: number[];
@@ -44,6 +53,28 @@ interface DrawingElement {
     textCase?: 'none' | 'uppercase' | 'capitalize';
     align?: string;
     imageSrc?: string;
+    // Layer group the element belongs to; members are kept next to each other in z-order
+    groupId?: string;
+    // Locked elements ignore the canvas (no select, drag or transform) but stay editable from the Layers panel
+    locked?: boolean;
+    // Step marker badge; its number comes from its position among the step markers
+    stepShape?: 'circle' | 'square' | 'rounded';
+    // Whether the step marker draws a leader line to the target in `points`
+    leader?: boolean;
+    // How a blur region obscures the image and the outline it covers (freehand uses `points`)
+    blurMode?: BlurMode;
+    blurStrength?: number;
+    blurShape?: BlurShape;
+    // Degrees clockwise around (x, y); blur regions always stay axis-aligned
+    rotation?: number;
+}
+
+export interface LayerGroup {
+    id: string;
+    name: string;
+    collapsed: boolean;
+    visible: boolean;
+    locked: boolean;
 }
 
 interface Preset {
@@ -52,6 +83,159 @@ interface Preset {
     elements: DrawingElement[];
 }
 
+// One image of a capture; very tall pages arrive split into several parts
+interface CapturePage {
+    src: string;
+    label: string;
+    // Page the image was captured from, when known
+    url?: string;
+    title?: string;
+}
+
+// Area of the base image that is shown and exported, in image pixels
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Proposed blur over detected sensitive data, in image pixels
+interface RedactionSuggestion {
+    id: string;
+    kind: SensitiveKind;
+    text: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// One undo step: the annotations, their layer groups and the crop they were made with
+export interface HistoryEntry {
+    elements: DrawingElement[];
+    crop: CropRect | null;
+    // Groups that existed at this step; unset leaves the current groups alone
+    groups?: LayerGroup[];
+    // Base image after a rotate or flip; unset means the page's own image
+    imageSrc?: string;
+}
+
+// Rotations and flips of the base image
+type ImageTurn = 'rotate-cw' | 'rotate-ccw' | 'rotate-180' | 'flip-h' | 'flip-v';
+
+// Annotations and undo history of one page
+export interface PageState {
+    elements: DrawingElement[];
+    history: HistoryEntry[];
+    historyIndex: number;
+}
+
+// Page state with no undo steps, for annotations loaded from a project or the gallery
+const freshPageState = (saved: SavedPage): PageState => ({
+    elements: saved.elements,
+    history: [{ elements: saved.elements, crop: saved.crop, imageSrc: saved.image }],
+    historyIndex: 0,
+});
+
+type ExportFormat = 'png' | 'jpeg' | 'webp';
+// Everything on the canvas, only the selected elements' area, or the image without annotations
+type ExportContent = 'all' | 'selection' | 'image';
+type ExportAction = 'copy' | 'download';
+
+interface ExportSettings {
+    format: ExportFormat;
+    // 0-1, ignored for PNG
+    quality: number;
+    // Output pixels per image pixel
+    scale: number;
+    content: ExportContent;
+    // File name without extension; see FILENAME_TOKENS
+    filename: string;
+}
+
+const DEFAULT_EXPORT: ExportSettings = {
+    format: 'png',
+    quality: 0.9,
+    scale: 1,
+    content: 'all',
+    filename: 'screenshot-{date}-{time}',
+};
+
+const EXPORT_SCALES = [0.5, 1, 2];
+
+// New blank canvas; larger sizes fail to allocate in some browsers
+const DEFAULT_BLANK = { width: 1280, height: 720, background: '#ffffff' };
+const MAX_BLANK_SIZE = 16384;
+
+// Editor tabs tell each other which capture they have open, so each capture is edited in one tab only
+const EDITOR_TABS_CHANNEL = 'screenshot-editor-tabs';
+
+interface OpenCaptureTab {
+    id: string;
+    tabId: number;
+    windowId: number;
+}
+
+// Asks the other editor tabs whether one of them already has the capture open
+const findCaptureTab = (id: string) => new Promise<OpenCaptureTab | null>(resolve => {
+    const channel = new BroadcastChannel(EDITOR_TABS_CHANNEL);
+    const timer = setTimeout(() => {
+        channel.close();
+        resolve(null);
+    }, 200);
+    channel.onmessage = (e: MessageEvent) => {
+        if (e.data?.type !== 'capture-open' || e.data.id !== id) return;
+        clearTimeout(timer);
+        channel.close();
+        resolve(e.data);
+    };
+    channel.postMessage({ type: 'find-capture', id });
+});
+
+const FILENAME_TOKENS = ['{title}', '{domain}', '{date}', '{time}', '{mode}', '{page}'];
+
+// Fills in the filename tokens and strips characters that aren't allowed in file names
+function buildFilename(template: string, values: Record<string, string>): string {
+    const name = template
+        .replace(/\{(\w+)\}/g, (token, key) => values[key] ?? token)
+        .replace(/[\\/:*?"<>|\x00-\x1f]+/g, '-')
+        .replace(/\s+/g, ' ')
+        .trim();
+    return name || 'screenshot';
+}
+
+const CROP_ASPECTS: { label: string; ratio: number | null }[] = [
+    { label: 'Free', ratio: null },
+    { label: '16:9', ratio: 16 / 9 },
+    { label: '4:3', ratio: 4 / 3 },
+    { label: '1:1', ratio: 1 },
+];
+
+// Listed in the "?" overlay; tool keys are added from the toolbar definition
+const SHORTCUTS: { keys: string; action: string }[] = [
+    { keys: 'Ctrl/⌘ + Z', action: 'Undo' },
+    { keys: 'Ctrl/⌘ + Shift + Z', action: 'Redo' },
+    { keys: 'Shift/Ctrl/⌘ + Click', action: 'Add to or remove from selection' },
+    { keys: 'Ctrl/⌘ + A', action: 'Select all visible elements' },
+    { keys: 'Delete / Backspace', action: 'Delete selection' },
+    { keys: 'Arrow keys', action: 'Nudge selection by 1px' },
+    { keys: 'Shift + Arrow keys', action: 'Nudge selection by 10px' },
+    { keys: 'Ctrl/⌘ + C', action: 'Copy selection' },
+    { keys: 'Ctrl/⌘ + V', action: 'Paste elements, or the image on the clipboard' },
+    { keys: 'Ctrl/⌘ + D', action: 'Duplicate selection' },
+    { keys: 'Ctrl/⌘ + G', action: 'Group selection' },
+    { keys: 'Ctrl/⌘ + Shift + G', action: 'Ungroup' },
+    { keys: 'Ctrl/⌘ + Shift + ]', action: 'Bring to front' },
+    { keys: 'Ctrl/⌘ + Shift + [', action: 'Send to back' },
+    { keys: 'Ctrl/⌘ + +', action: 'Zoom in' },
+    { keys: 'Ctrl/⌘ + -', action: 'Zoom out' },
+    { keys: 'Ctrl/⌘ + 0', action: 'Reset zoom' },
+    { keys: 'Enter', action: 'Apply crop' },
+    { keys: 'Escape', action: 'Deselect / cancel crop' },
+    { keys: '?', action: 'Show or hide this list' },
+];
+
 interface Toast {
     id: string;
     message: string;
@@ -80,53 +264,67 @@ const AVAILABLE_FONTS = [
     { name: 'Lobster', category: 'handwriting' },
 ];
 
-const PixelatedBlur: React.FC<{
+const BlurElement: React.FC<{
     image: HTMLImageElement;
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-    pixelSize?: number;
+    region: BlurRegion;
     commonProps: any;
-}> = ({ image, x, y, width, height, pixelSize = 10, commonProps }) => {
-    const [blurredImage, setBlurredImage] = React.useState<HTMLImageElement | null>(null);
-
-    React.useEffect(() => {
-        if (!image || width <= 0 || height <= 0) return;
-
-        const canvas = document.createElement('canvas');
-        canvas.width = width;
-        canvas.height = height;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-
-        ctx.drawImage(image, x, y, width, height, 0, 0, width, height);
-
-        const smallWidth = Math.max(1, Math.ceil(width / pixelSize));
-        const smallHeight = Math.max(1, Math.ceil(height / pixelSize));
-
-        const smallCanvas = document.createElement('canvas');
-        smallCanvas.width = smallWidth;
-        smallCanvas.height = smallHeight;
-        const smallCtx = smallCanvas.getContext('2d');
-        if (!smallCtx) return;
-
-        smallCtx.drawImage(canvas, 0, 0, width, height, 0, 0, smallWidth, smallHeight);
+}> = ({ image, region, commonProps }) => {
+    const { x, y, width, height, mode, strength, shape, points } = region;
+    const outline = points?.join(',');
+
+    // Rendered while the element renders, so an export right after a change never sees a stale blur
+    const blurred = React.useMemo(
+        () => (image && width > 0 && height > 0 ? renderBlurRegion(image, region) : null),
+        [image, x, y, width, height, mode, strength, shape, outline]
+    );
 
-        ctx.imageSmoothingEnabled = false;
-        ctx.clearRect(0, 0, width, height);
-        ctx.drawImage(smallCanvas, 0, 0, smallWidth, smallHeight, 0, 0, width, height);
+    if (!blurred) {
+        return <Rect {...commonProps} x={x} y={y} width={width} height={height} fill="rgba(128, 128, 128, 0.9)" />;
+    }
 
-        const img = new Image();
-        img.onload = () => setBlurredImage(img);
-        img.src = canvas.toDataURL();
-    }, [image, x, y, width, height, pixelSize]);
+    return <KonvaImage {...commonProps} x={x} y={y} image={blurred} width={width} height={height} />;
+};
 
-    if (!blurredImage) {
-        return <Rect {...commonProps} width={width} height={height} fill="rgba(128, 128, 128, 0.9)" />;
-    }
+const StepMarker: React.FC<{
+    number: number;
+    color: string;
+    size: number;
+    shape: 'circle' | 'square' | 'rounded';
+    leaderPoints?: number[];
+    commonProps: any;
+}> = ({ number, color, size, shape, leaderPoints, commonProps }) => {
+    // White digits on dark badges, near-black on light ones
+    const hex = color.replace('#', '');
+    const [r, g, b] = [0, 2, 4].map(i => parseInt(hex.substr(i, 2), 16) || 0);
+    const textColor = (0.299 * r + 0.587 * g + 0.114 * b) > 170 ? '#111827' : '#ffffff';
+    const leaderWidth = Math.max(2, size / 12);
 
-    return <KonvaImage {...commonProps} image={blurredImage} width={width} height={height} />;
+    return (
+        <Group {...commonProps}>
+            {leaderPoints && (
+                <>
+                    <Line points={leaderPoints} stroke={color} strokeWidth={leaderWidth} lineCap="round" />
+                    <Circle x={leaderPoints[2]} y={leaderPoints[3]} radius={leaderWidth * 1.5} fill={color} />
+                </>
+            )}
+            {shape === 'circle'
+                ? <Circle radius={size / 2} fill={color} stroke="#ffffff" strokeWidth={size / 16} shadowColor="rgba(0,0,0,0.3)" shadowBlur={size / 8} />
+                : <Rect x={-size / 2} y={-size / 2} width={size} height={size} cornerRadius={shape === 'rounded' ? size / 4 : 0} fill={color} stroke="#ffffff" strokeWidth={size / 16} shadowColor="rgba(0,0,0,0.3)" shadowBlur={size / 8} />}
+            <Text
+                text={String(number)}
+                x={-size / 2}
+                y={-size / 2}
+                width={size}
+                height={size}
+                align="center"
+                verticalAlign="middle"
+                fontSize={size * (number > 9 ? 0.45 : 0.55)}
+                fontFamily="Inter"
+                fontStyle="bold"
+                fill={textColor}
+            />
+        </Group>
+    );
 };
 
 const ImageElement: React.FC<{
@@ -155,6 +353,8 @@ function Editor() {
     const transformerRef = useRef<Konva.Transformer>(null);
     const textInputRef = useRef<HTMLInputElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const projectInputRef = useRef<HTMLInputElement>(null);
+    const baseImageInputRef = useRef<HTMLInputElement>(null);
     const canvasContainerRef = useRef<HTMLDivElement>(null);
     const activeFontLoads = useRef<Set<string>>(new Set());
 
@@ -167,6 +367,7 @@ function Editor() {
     const [color, setColor] = useState('#a173fe');
     const [strokeWidth, setStrokeWidth] = useState(18);
     const [filled, setFilled] = useState(false);
+    const [blurShape, setBlurShape] = useState<BlurShape>('rect');
 
     const [opacity, setOpacity] = useState(1);
     const [dashEnabled, setDashEnabled] = useState(false);
@@ -189,12 +390,24 @@ function Editor() {
     const [loadingFont, setLoadingFont] = useState<string | null>(null);
 
     const [elements, setElements] = useState<DrawingElement[]>([]);
-    const [selectedId, setSelectedId] = useState<string | null>(null);
+    // Group settings; membership itself lives on the elements (groupId) and so follows undo/redo
+    const [groups, setGroups] = useState<LayerGroup[]>([]);
+    const [renamingGroupId, setRenamingGroupId] = useState<string | null>(null);
+    const draggedLayerRef = useRef<{ kind: 'element' | 'group'; id: string } | null>(null);
+    const [layerDropTarget, setLayerDropTarget] = useState<{ id: string; above: boolean } | null>(null);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    // The most recently selected element drives the Properties panel and tool settings
+    const selectedId = selectedIds.length ? selectedIds[selectedIds.length - 1] : null;
+    const setSelectedId = (id: string | null) => setSelectedIds(id ? [id] : []);
+    // Rubber-band selection rectangle drawn with the select tool (canvas coordinates)
+    const [marquee, setMarquee] = useState<{ x: number; y: number; width: number; height: number } | null>(null);
     const [isDrawing, setIsDrawing] = useState(false);
     const [currentElement, setCurrentElement] = useState<DrawingElement | null>(null);
 
-    const [history, setHistory] = useState<DrawingElement[][]>([[]]);
+    const [history, setHistory] = useState<HistoryEntry[]>([{ elements: [], crop: null }]);
     const [historyIndex, setHistoryIndex] = useState(0);
+    // The page shows a rotated or flipped copy of its image
+    const isImageTurned = !!history[historyIndex]?.imageSrc;
 
     const [textInput, setTextInput] = useState<{ x: number; y: number; visible: boolean; editingId: string | null }>({
         x: 0, y: 0, visible: false, editingId: null
@@ -210,7 +423,11 @@ function Editor() {
     const [zoom, setZoom] = useState(0.5); // Start with 0.5 to ensure visibility
     const [elementCounter, setElementCounter] = useState(1);
 
-    const [cropRect, setCropRect] = useState<{ x: number; y: number; width: number; height: number } | null>(null);
+    // Applied crop; elements keep image coordinates and the stage is shifted to show only this area
+    const [crop, setCrop] = useState<CropRect | null>(null);
+    // Crop being edited while the Crop tool is active
+    const [cropRect, setCropRect] = useState<CropRect | null>(null);
+    const [cropAspect, setCropAspect] = useState<number | null>(null);
     const [isCropping, setIsCropping] = useState(false);
     const [redrawCounter, setRedrawCounter] = useState(0);
 
@@ -220,23 +437,68 @@ function Editor() {
     const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
     const [presetNameInput, setPresetNameInput] = useState('');
     const [toasts, setToasts] = useState<Toast[]>([]);
+    const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+    // Confirmation for burning in redactions, or the pre-export warning about redactions that won't show
+    const [redactionPrompt, setRedactionPrompt] = useState<
+        { kind: 'apply' } | { kind: 'audit'; ids: string[]; action: ExportAction } | null
+    >(null);
+    // Export held back by that warning, run once the redactions it made visible are on the canvas
+    const [pendingExport, setPendingExport] = useState<ExportAction | null>(null);
+    // Elements copied with Ctrl/Cmd+C, kept inside the editor only
+    const elementClipboardRef = useRef<DrawingElement[]>([]);
+    // Set by copying elements, cleared when the window regains focus: an element copied since then is
+    // newer than anything put on the system clipboard, so Ctrl/Cmd+V pastes it instead of the clipboard's image
+    const elementsCopiedRef = useRef(false);
+
+    const [pages, setPages] = useState<CapturePage[]>([]);
+    const [activePage, setActivePage] = useState(0);
+    const [captureNotice, setCaptureNotice] = useState<string | null>(null);
+    const [captureSetName, setCaptureSetName] = useState<string | null>(null);
+    // Capture mode the image came from ('visible', 'fullpage', ..., or 'batch'), for file names
+    const [captureMode, setCaptureMode] = useState<string | null>(null);
+    // History library entry of the open capture, kept up to date with the annotations
+    const [captureId, setCaptureId] = useState<string | null>(null);
+    // Opened without a capture: waits for an image file, a paste or a blank canvas
+    const [isStartScreen, setIsStartScreen] = useState(false);
+    const [isDraggingFile, setIsDraggingFile] = useState(false);
+    const [blankCanvas, setBlankCanvas] = useState(DEFAULT_BLANK);
+    const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT);
+    const [isExportOpen, setIsExportOpen] = useState(false);
+    // Page text collected at capture time, for sensitive-data detection
+    const [captureText, setCaptureText] = useState<CaptureText | null>(null);
+    const [customPatterns, setCustomPatterns] = useState('');
+    const [isSensitivePanelOpen, setIsSensitivePanelOpen] = useState(false);
+    const [suggestions, setSuggestions] = useState<RedactionSuggestion[]>([]);
+    const [hoveredSuggestionId, setHoveredSuggestionId] = useState<string | null>(null);
+    // Export-time frame around the screenshot
+    const [frame, setFrame] = useState<FrameSettings>(DEFAULT_FRAME);
+    const [isFramePanelOpen, setIsFramePanelOpen] = useState(false);
+    const [framePreview, setFramePreview] = useState<string | null>(null);
+    const pageStatesRef = useRef<Record<number, PageState>>({});
+    // Object URLs the current pages are shown from
+    const pageUrlsRef = useRef<string[]>([]);
+    // Capture open in this tab, for answering the other editor tabs
+    const captureIdRef = useRef<string | null>(null);
+    captureIdRef.current = captureId;
 
     const templatesRef = useRef<HTMLDivElement>(null);
 
     const toolSettingsRef = useRef<Record<Tool, Partial<DrawingElement>>>({
+        select: {},
         crop: {},
         pencil: { color: '#000000', strokeWidth: 18, opacity: 1 },
         line: { color: '#000000', strokeWidth: 18, opacity: 1, dash: [10, 5] },
         arrow: { color: '#000000', strokeWidth: 18, opacity: 1, pointerAtStart: false },
         rectangle: { color: '#000000', strokeWidth: 18, opacity: 1, filled: false },
         circle: { color: '#000000', strokeWidth: 18, opacity: 1, filled: false },
+        step: { color: '#ef4444', width: 48, stepShape: 'circle' },
         text: {
             color: '#000000', fontSize: 80, fontFamily: 'Inter', align: 'left',
             strokeWidth: 0, strokeColor: '#000000', bgColor: '#ffffff',
             shadowBlur: 0, shadowOffset: 0, shadowColor: '#000000',
             letterSpacing: 0, lineHeight: 1.2, textCase: 'none'
         },
-        blur: {},
+        blur: { blurMode: 'pixelate', blurStrength: DEFAULT_BLUR_STRENGTH.pixelate },
         image: {}
     });
 
@@ -251,7 +513,7 @@ function Editor() {
 
     // Persist settings when they change
     useEffect(() => {
-        if (!tool || tool === 'crop' || tool === 'image' || tool === 'blur') return;
+        if (!tool || tool === 'select' || tool === 'crop' || tool === 'image' || tool === 'blur') return;
 
         const currentSettings = toolSettingsRef.current[tool] || {};
         const newSettings: Partial<DrawingElement> = { ...currentSettings };
@@ -321,61 +583,104 @@ function Editor() {
         }
     };
 
-    useEffect(() => {
-        const loadImage = () => {
-            console.log('Editor: Attempting to load captured image...');
-            (window as any).chrome.storage.local.get(['capturedImage', 'stylePresets'], (result: { capturedImage?: string; stylePresets?: Preset[] }) => {
-                if ((window as any).chrome.runtime.lastError) {
-                    console.error('Editor: Storage retrieval failed:', (window as any).chrome.runtime.lastError);
-                    setError('Storage retrieval failed');
-                    return;
-                }
+    const openImageSource = (src: string, savedZoom?: number) => {
+        setImageData(src);
+        const img = new window.Image();
+
+        img.onload = () => {
+            console.log(`Editor: Image rendered successfully (${img.width}x${img.height})`);
+            setImage(img);
 
-                if (result?.stylePresets) {
-                    setPresets(result.stylePresets);
+            setStageSize({ width: img.width, height: img.height });
+            if (savedZoom) {
+                setZoom(savedZoom);
+                return;
+            }
+            setTimeout(() => {
+                if (canvasContainerRef.current) {
+                    const containerWidth = canvasContainerRef.current.clientWidth - 40;
+                    const containerHeight = canvasContainerRef.current.clientHeight - 40;
+
+                    if (img.width > 0 && img.height > 0) {
+                        const fitZoom = Math.min(containerWidth / img.width, containerHeight / img.height, 1);
+                        setZoom(Math.max(0.1, Number.isFinite(fitZoom) ? fitZoom : 0.5));
+                        console.log('Editor: Initial zoom set to:', fitZoom);
+                    }
                 }
+            }, 100);
+        };
 
-                if (result?.capturedImage) {
-                    const dataLength = result.capturedImage.length;
-                    console.log(`Editor: Image found, Data URL length: ${dataLength} characters (~${Math.round(dataLength / 1024 / 1024)} MB)`);
-
-                    setImageData(result.capturedImage);
-                    const img = new window.Image();
-
-                    img.onload = () => {
-                        console.log(`Editor: Image rendered successfully (${img.width}x${img.height})`);
-                        setImage(img);
-
-                        setStageSize({ width: img.width, height: img.height });
-                        setTimeout(() => {
-                            if (canvasContainerRef.current) {
-                                const containerWidth = canvasContainerRef.current.clientWidth - 40;
-                                const containerHeight = canvasContainerRef.current.clientHeight - 40;
-
-                                if (img.width > 0 && img.height > 0) {
-                                    const fitZoom = Math.min(containerWidth / img.width, containerHeight / img.height, 1);
-                                    setZoom(Math.max(0.1, Number.isFinite(fitZoom) ? fitZoom : 0.5));
-                                    console.log('Editor: Initial zoom set to:', fitZoom);
-                                }
-                            }
-                        }, 100);
-                    };
+        img.onerror = (err) => {
+            console.error('Editor: Failed to decode image element.', err);
+            setError('Failed to render captured image. The screenshot might be too large for the browser to process. Try a smaller area or shorter page.');
+        };
 
-                    img.onerror = (err) => {
-                        console.error('Editor: Failed to decode image element.', err);
-                        setError('Failed to render captured image. The screenshot might be too large for the browser to process. Try a smaller area or shorter page.');
-                    };
+        img.src = src;
+    };
 
-                    img.src = result.capturedImage;
-                }
-                else {
-                    console.warn('Editor: No capturedImage found in storage');
-                    setError('No screenshot found. Please try capturing again.');
-                }
-            });
+    useEffect(() => {
+        browser.storage.local.get(['sensitivePatterns', 'frameSettings', 'exportSettings', 'stylePresets']).then((stored) => {
+            const result = stored as { sensitivePatterns?: string[]; frameSettings?: FrameSettings; exportSettings?: ExportSettings; stylePresets?: Preset[] };
+
+            if (result.stylePresets) {
+                setPresets(result.stylePresets);
+            }
+
+            if (result.exportSettings) {
+                setExportSettings({ ...DEFAULT_EXPORT, ...result.exportSettings });
+            }
+
+            if (result.frameSettings) {
+                setFrame({ ...DEFAULT_FRAME, ...result.frameSettings });
+            }
+
+            if (result.sensitivePatterns) {
+                setCustomPatterns(result.sensitivePatterns.join('\n'));
+            }
+        }).catch((err) => console.error('Editor: Failed to load settings:', err));
+
+        // The background, the history page and the popup open the editor with the id of a stored capture
+        const params = new URLSearchParams(window.location.search);
+        const id = params.get('capture');
+        if (!id) {
+            // The popup's New blank canvas passes the size and color; otherwise ask for an image
+            if (params.has('blank')) {
+                createBlankCanvas(Number(params.get('width')), Number(params.get('height')), params.get('background') || DEFAULT_BLANK.background);
+            } else {
+                setIsStartScreen(true);
+            }
+            return;
+        }
+
+        // A second tab on the same capture would overwrite the first one's session, so the
+        // capture's tab is brought forward and this one closed instead
+        findCaptureTab(id).then(async (open) => {
+            if (!open) {
+                console.log(`Editor: Loading capture ${id}...`);
+                return openCapture(id);
+            }
+            setError('This capture is already open in another tab.');
+            await browser.tabs.update(open.tabId, { active: true });
+            await browser.windows.update(open.windowId, { focused: true });
+            const tab = await browser.tabs.getCurrent();
+            if (tab?.id !== undefined) await browser.tabs.remove(tab.id);
+        }).catch((err) => {
+            console.error('Editor: Failed to load the capture:', err);
+            setError('The capture could not be loaded. Please try capturing again.');
+        });
+    }, []);
+
+    // Tells other editor tabs opening the same capture where to find it
+    useEffect(() => {
+        const channel = new BroadcastChannel(EDITOR_TABS_CHANNEL);
+        channel.onmessage = async (e: MessageEvent) => {
+            if (e.data?.type !== 'find-capture' || !captureIdRef.current || e.data.id !== captureIdRef.current) return;
+            const tab = await browser.tabs.getCurrent();
+            if (tab?.id === undefined) return;
+            const reply: OpenCaptureTab = { id: e.data.id, tabId: tab.id, windowId: tab.windowId };
+            channel.postMessage({ type: 'capture-open', ...reply });
         };
-        // Increased delay to 1000ms for stable loading of massive full-page data urls
-        setTimeout(loadImage, 1000);
+        return () => channel.close();
     }, []);
 
     // Proactive Font Loading
@@ -465,17 +770,17 @@ function Editor() {
 
     useEffect(() => {
         if (!transformerRef.current || !stageRef.current) return;
-        if (selectedId) {
-            const selectedNode = stageRef.current.findOne('#' + selectedId);
-            if (selectedNode) {
-                transformerRef.current.nodes([selectedNode]);
-                transformerRef.current.getLayer()?.batchDraw();
-            }
-        } else {
-            transformerRef.current.nodes([]);
-            transformerRef.current.getLayer()?.batchDraw();
-        }
-    }, [selectedId, elements]);
+        // Locked elements can be selected from the Layers panel, but never get transform handles
+        const selectedNodes = selectedIds
+            .filter(id => {
+                const el = elements.find(e => e.id === id);
+                return el && !el.locked && !(el.groupId && groups.find(g => g.id === el.groupId)?.locked);
+            })
+            .map(id => stageRef.current!.findOne('#' + id))
+            .filter((node): node is Konva.Node => !!node);
+        transformerRef.current.nodes(selectedNodes);
+        transformerRef.current.getLayer()?.batchDraw();
+    }, [selectedIds, elements, groups]);
 
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
@@ -515,8 +820,8 @@ function Editor() {
             const swRect = stageWrapper.getBoundingClientRect();
 
             // Correct position relative to viewport (including scroll)
-            const targetX = swRect.left + (textInput.x * zoom);
-            const targetY = swRect.top + (textInput.y * zoom);
+            const targetX = swRect.left + ((textInput.x - view.x) * zoom);
+            const targetY = swRect.top + ((textInput.y - view.y) * zoom);
 
             // Let's set the popup position simply by setting its style in the effect for max performance
             // or use the state if we want to keep it "React-y". Let's use state for simplicity since it's already there.
@@ -562,7 +867,10 @@ function Editor() {
     }, []);
 
     useEffect(() => {
-        if (tool !== 'crop') {
+        if (tool === 'crop') {
+            // Re-open the applied crop so it can be adjusted or expanded back out
+            setCropRect(crop);
+        } else {
             setCropRect(null);
             setIsCropping(false);
         }
@@ -611,12 +919,25 @@ function Editor() {
         if (saveToHistory) addToHistory(newElements);
     };
 
-    const addToHistory = useCallback((newElements: DrawingElement[]) => {
+    // Applies the same change to several elements as a single history entry
+    const updateElementsProperty = (ids: string[], updates: Partial<DrawingElement>) => {
+        const newElements = elements.map(el => ids.includes(el.id) ? { ...el, ...updates } : el);
+        setActivePresetId(null);
+        setElements(newElements);
+        addToHistory(newElements);
+    };
+
+    const addToHistory = useCallback((
+        newElements: DrawingElement[],
+        newCrop: CropRect | null = crop,
+        imageSrc = history[historyIndex]?.imageSrc,
+        newGroups: LayerGroup[] = groups,
+    ) => {
         const newHistory = history.slice(0, historyIndex + 1);
-        newHistory.push([...newElements]);
+        newHistory.push({ elements: [...newElements], crop: newCrop, imageSrc, groups: newGroups });
         setHistory(newHistory);
         setHistoryIndex(newHistory.length - 1);
-    }, [history, historyIndex]);
+    }, [history, historyIndex, crop, groups]);
 
     const getPointerPosition = () => {
         const stage = stageRef.current;
@@ -634,6 +955,15 @@ function Editor() {
         const pos = getPointerPosition();
         const clickedOnEmpty = e.target === e.target.getStage() || e.target.attrs.id === 'background-image';
 
+        if (tool === 'select') {
+            if (clickedOnEmpty) {
+                // Shift/Ctrl/Cmd keeps the current selection and adds to it
+                if (!(e.evt.shiftKey || e.evt.ctrlKey || e.evt.metaKey)) setSelectedId(null);
+                setMarquee({ x: pos.x, y: pos.y, width: 0, height: 0 });
+            }
+            return;
+        }
+
         if (tool === 'crop') {
             if (clickedOnEmpty) {
                 setSelectedId(null);
@@ -651,6 +981,28 @@ function Editor() {
             return;
         }
 
+        if (tool === 'step') {
+            // Dragging from the badge draws its leader line
+            const settings = toolSettingsRef.current.step;
+            setIsDrawing(true);
+            setCurrentElement({
+                id: `element-${Date.now()}`,
+                type: 'step',
+                x: pos.x,
+                y: pos.y,
+                points: [0, 0, 0, 0],
+                width: settings.width || 48,
+                stepShape: settings.stepShape || 'circle',
+                leader: false,
+                color,
+                strokeWidth: 0,
+                visible: true,
+                name: 'Step',
+                opacity,
+            });
+            return;
+        }
+
         if (['pencil', 'line', 'arrow', 'rectangle', 'circle', 'blur'].includes(tool)) {
             setIsDrawing(true);
             const newElement: DrawingElement = {
@@ -658,7 +1010,7 @@ function Editor() {
                 type: tool,
                 x: pos.x,
                 y: pos.y,
-                points: tool === 'pencil' ? [0, 0] : [0, 0, 0, 0],
+                points: tool === 'pencil' || (tool === 'blur' && blurShape === 'freehand') ? [0, 0] : [0, 0, 0, 0],
                 width: 0,
                 height: 0,
                 color,
@@ -671,19 +1023,38 @@ function Editor() {
                 dash: dashEnabled ? dashStyle : null,
                 pointerAtStart: tool === 'arrow' ? pointerAtStart : undefined,
             };
+            if (tool === 'blur') {
+                const settings = toolSettingsRef.current.blur;
+                newElement.blurMode = settings.blurMode || 'pixelate';
+                newElement.blurStrength = settings.blurStrength ?? DEFAULT_BLUR_STRENGTH[newElement.blurMode];
+                newElement.blurShape = blurShape;
+            }
             setCurrentElement(newElement);
         }
     };
 
+    const isFreehandBlur = (el: DrawingElement) => el.type === 'blur' && el.blurShape === 'freehand';
+
     const handleStageMouseMove = () => {
+        if (marquee) {
+            const pos = getPointerPosition();
+            setMarquee({ ...marquee, width: pos.x - marquee.x, height: pos.y - marquee.y });
+            return;
+        }
         if (!isDrawing || !currentElement) return;
         const pos = getPointerPosition();
         const startX = currentElement.x;
         const startY = currentElement.y;
 
-        if (currentElement.type === 'pencil') {
+        if (currentElement.type === 'pencil' || isFreehandBlur(currentElement)) {
             const newPoints = [...(currentElement.points || []), pos.x - startX, pos.y - startY];
             setCurrentElement({ ...currentElement, points: newPoints });
+        } else if (currentElement.type === 'step') {
+            const dx = pos.x - startX;
+            const dy = pos.y - startY;
+            // Only a drag clearly outside the badge counts as a leader line
+            const leader = Math.hypot(dx, dy) > (currentElement.width || 48) * 0.75;
+            setCurrentElement({ ...currentElement, points: [0, 0, dx, dy], leader });
         } else {
             const width = pos.x - startX;
             const height = pos.y - startY;
@@ -699,26 +1070,94 @@ function Editor() {
     const handleCropMouseMove = () => {
         if (!isCropping || !cropRect) return;
         const pos = getPointerPosition();
-        setCropRect({
-            ...cropRect,
-            width: pos.x - cropRect.x,
-            height: pos.y - cropRect.y,
-        });
+        const width = pos.x - cropRect.x;
+        let height = pos.y - cropRect.y;
+        if (cropAspect) height = (height < 0 ? -1 : 1) * Math.abs(width) / cropAspect;
+        setCropRect({ ...cropRect, width, height });
     };
 
     const handleCropMouseUp = () => {
-        if (isCropping) setIsCropping(false);
+        if (!isCropping) return;
+        setIsCropping(false);
+        if (cropRect) setCropRect(clampCrop(cropRect));
+    };
+
+    // Normalizes a crop to a positive size that stays inside the image
+    const clampCrop = (rect: CropRect): CropRect => {
+        const x = Math.max(0, Math.round(Math.min(rect.x, rect.x + rect.width)));
+        const y = Math.max(0, Math.round(Math.min(rect.y, rect.y + rect.height)));
+        return {
+            x,
+            y,
+            width: Math.min(stageSize.width - x, Math.round(Math.abs(rect.width))),
+            height: Math.min(stageSize.height - y, Math.round(Math.abs(rect.height))),
+        };
+    };
+
+    // Resizes the crop being edited, keeping the chosen aspect ratio and its top-left corner
+    const resizeCropRect = (width: number, height: number, aspect = cropAspect) => {
+        const base = cropRect || { x: 0, y: 0, width: stageSize.width, height: stageSize.height };
+        let w = Math.max(1, Math.min(width, stageSize.width - base.x));
+        let h = Math.max(1, Math.min(height, stageSize.height - base.y));
+        if (aspect) {
+            if (w / aspect <= stageSize.height - base.y) h = w / aspect;
+            else { h = stageSize.height - base.y; w = h * aspect; }
+        }
+        setCropRect({ ...base, width: Math.round(w), height: Math.round(h) });
+    };
+
+    const selectCropAspect = (ratio: number | null) => {
+        setCropAspect(ratio);
+        if (ratio && cropRect) resizeCropRect(cropRect.width, cropRect.height, ratio);
+    };
+
+    const finishMarquee = () => {
+        if (!marquee) return;
+        const stage = stageRef.current;
+        const box = {
+            x: Math.min(marquee.x, marquee.x + marquee.width),
+            y: Math.min(marquee.y, marquee.y + marquee.height),
+            width: Math.abs(marquee.width),
+            height: Math.abs(marquee.height),
+        };
+        setMarquee(null);
+        if (!stage || (box.width < 3 && box.height < 3)) return;
+
+        // Hidden elements have no node on the stage, so they are never picked up
+        const hits = elements.filter(el => {
+            if (isElementLocked(el)) return false;
+            const node = stage.findOne('#' + el.id);
+            return node && Konva.Util.haveIntersection(box, node.getClientRect({ relativeTo: stage }));
+        });
+        // Touching one member selects its whole group
+        const ids = hits.flatMap(el => el.groupId ? groupMemberIds(el.groupId) : [el.id])
+            .filter(id => {
+                const el = elements.find(e => e.id === id);
+                return el && el.visible && !el.locked;
+            });
+        setSelectedIds(prev => Array.from(new Set([...prev, ...ids])));
     };
 
     const handleStageMouseUp = () => {
+        if (marquee) {
+            finishMarquee();
+            return;
+        }
         if (!isDrawing || !currentElement) return;
         setIsDrawing(false);
-        const hasSize = currentElement.type === 'pencil'
-            ? (currentElement.points?.length || 0) > 4
-            : (currentElement.width || 0) > 5 || (currentElement.height || 0) > 5;
+        const hasSize = currentElement.type === 'step'
+            || (currentElement.type === 'pencil' || isFreehandBlur(currentElement)
+                ? (currentElement.points?.length || 0) > 4
+                : (currentElement.width || 0) > 5 || (currentElement.height || 0) > 5);
 
         if (hasSize) {
-            const newElements = [...elements, currentElement];
+            let finished = currentElement;
+            if (finished.type === 'blur') {
+                // Store blur regions with a positive size from their top-left corner
+                const region = blurRegionOf(finished);
+                finished = { ...finished, x: region.x, y: region.y, width: region.width, height: region.height, points: region.points };
+            }
+            const newElements = [...elements, finished];
             setElements(newElements);
             addToHistory(newElements);
             setElementCounter(prev => prev + 1);
@@ -756,11 +1195,18 @@ function Editor() {
         setTextValue('');
     }, [textValue, textInput, elements, color, strokeWidth, elementCounter, addToHistory, fontFamily, fontSize, bgColor, strokeColor, shadowBlur, shadowOffset, shadowColor, letterSpacing, lineHeight, textCase, align]);
 
-    const handleElementClick = (id: string) => {
+    const handleElementClick = (id: string, additive = false) => {
+        if (additive) {
+            setSelectedIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+            return;
+        }
+        // Pressing on a member of a multi-selection keeps the group so it can be dragged together
+        if (selectedIds.length > 1 && selectedIds.includes(id)) return;
+
         const el = elements.find(e => e.id === id);
         if (el) {
             setSelectedId(id);
-            setTool(el.type);
+            if (tool !== 'select') setTool(el.type);
 
             // Sync current tool states with element properties for editing consistency
             if (el.color) setColor(el.color);
@@ -798,45 +1244,225 @@ function Editor() {
         }
     };
 
+    // On the canvas a grouped element stands for its whole group
+    const handleCanvasElementMouseDown = (el: DrawingElement, additive: boolean) => {
+        const members = el.groupId ? elements.filter(m => m.groupId === el.groupId && m.visible && !m.locked).map(m => m.id) : [];
+        if (members.length < 2) {
+            handleElementClick(el.id, additive);
+            return;
+        }
+        if (additive) {
+            const allSelected = members.every(id => selectedIds.includes(id));
+            setSelectedIds(prev => allSelected ? prev.filter(id => !members.includes(id)) : Array.from(new Set([...prev, ...members])));
+        } else if (!members.every(id => selectedIds.includes(id))) {
+            setSelectedIds(members);
+        }
+    };
+
     const handleDragEnd = (id: string, e: Konva.KonvaEventObject<DragEvent>) => {
+        // The Transformer moves the other selected nodes along; read all their positions back at once
+        if (selectedIds.length > 1 && selectedIds.includes(id)) {
+            const stage = stageRef.current;
+            const newElements = elements.map(el => {
+                const node = selectedIds.includes(el.id) ? stage?.findOne('#' + el.id) : undefined;
+                return node ? { ...el, x: node.x(), y: node.y() } : el;
+            });
+            setElements(newElements);
+            addToHistory(newElements);
+            return;
+        }
         updateElementProperty(id, { x: e.target.x(), y: e.target.y() });
     };
 
-    const handleTransformEnd = (id: string, e: Konva.KonvaEventObject<Event>) => {
-        const node = e.target;
-        const scaleX = node.scaleX();
-        const scaleY = node.scaleY();
+    // Runs once per transform for every node attached to the Transformer
+    const handleTransformEnd = () => {
+        const nodes = transformerRef.current?.nodes() || [];
+        const nodesById = new Map(nodes.map(node => [node.id(), node]));
 
         const newElements = elements.map(el => {
-            if (el.id === id) {
-                if (el.type === 'pencil' || el.type === 'line' || el.type === 'arrow') {
-                    return { ...el, x: node.x(), y: node.y(), points: el.points?.map((p, i) => i % 2 === 0 ? p * scaleX : p * scaleY) };
-                } else if (el.type === 'text') {
-                    const scale = Math.max(scaleX, scaleY);
-                    return { ...el, x: node.x(), y: node.y(), fontSize: Math.max(8, Math.round((el.fontSize || 24) * scale)), strokeWidth: Math.max(1, Math.round(el.strokeWidth * scale)) };
-                } else {
-                    return { ...el, x: node.x(), y: node.y(), width: Math.abs((el.width || 0) * scaleX), height: Math.abs((el.height || 0) * scaleY) };
-                }
+            const node = nodesById.get(el.id);
+            if (!node) return el;
+            const scaleX = node.scaleX();
+            const scaleY = node.scaleY();
+
+            if (el.type === 'pencil' || el.type === 'line' || el.type === 'arrow') {
+                return { ...el, x: node.x(), y: node.y(), rotation: node.rotation(), points: el.points?.map((p, i) => i % 2 === 0 ? p * scaleX : p * scaleY) };
+            } else if (el.type === 'step') {
+                const scale = Math.max(scaleX, scaleY);
+                return { ...el, x: node.x(), y: node.y(), rotation: node.rotation(), width: Math.max(16, Math.round((el.width || 48) * scale)), points: el.points?.map((p, i) => i % 2 === 0 ? p * scaleX : p * scaleY) };
+            } else if (el.type === 'text') {
+                const scale = Math.max(scaleX, scaleY);
+                return { ...el, x: node.x(), y: node.y(), rotation: node.rotation(), fontSize: Math.max(8, Math.round((el.fontSize || 24) * scale)), strokeWidth: Math.max(1, Math.round(el.strokeWidth * scale)) };
+            } else {
+                const points = isFreehandBlur(el) ? el.points?.map((p, i) => i % 2 === 0 ? p * scaleX : p * scaleY) : el.points;
+                const rotation = el.type === 'blur' ? undefined : node.rotation();
+                return { ...el, x: node.x(), y: node.y(), rotation, width: Math.abs((el.width || 0) * scaleX), height: Math.abs((el.height || 0) * scaleY), points };
             }
-            return el;
         });
 
-        node.scaleX(1); node.scaleY(1);
+        nodes.forEach(node => { node.scaleX(1); node.scaleY(1); });
         setElements(newElements);
         addToHistory(newElements);
     };
 
-    const deleteElement = (id: string) => {
-        const newElements = elements.filter(el => el.id !== id);
+    const deleteElement = (id: string) => deleteElements([id]);
+
+    const deleteElements = (ids: string[]) => {
+        const newElements = elements.filter(el => !ids.includes(el.id));
         setElements(newElements);
         addToHistory(newElements);
-        if (selectedId === id) setSelectedId(null);
+        setSelectedIds(prev => prev.filter(id => !ids.includes(id)));
     };
 
     const toggleVisibility = (id: string) => {
         setElements(elements.map(el => el.id === id ? { ...el, visible: !el.visible } : el));
     };
 
+    const setElementsVisibility = (ids: string[], visible: boolean) => {
+        const newElements = elements.map(el => ids.includes(el.id) ? { ...el, visible } : el);
+        setElements(newElements);
+        addToHistory(newElements);
+        if (!visible) setSelectedIds([]);
+    };
+
+    const groupOf = (el: DrawingElement) => el.groupId ? groups.find(g => g.id === el.groupId) : undefined;
+
+    const isElementShown = (el: DrawingElement) => el.visible && groupOf(el)?.visible !== false;
+
+    // Steps are numbered bottom to top among the shown ones, so deleting or reordering renumbers them
+    const stepNumberOf = (step: DrawingElement) => {
+        const steps = elements.filter(el => el.type === 'step' && isElementShown(el));
+        const index = steps.findIndex(el => el.id === step.id);
+        return index >= 0 ? index + 1 : steps.length + 1;
+    };
+
+    const isElementLocked = (el: DrawingElement) => !!el.locked || !!groupOf(el)?.locked;
+
+    const setElementsLocked = (ids: string[], locked: boolean) => {
+        const newElements = elements.map(el => ids.includes(el.id) ? { ...el, locked } : el);
+        setElements(newElements);
+        addToHistory(newElements);
+    };
+
+    const groupMemberIds = (groupId: string) => elements.filter(el => el.groupId === groupId).map(el => el.id);
+
+    const updateGroup = (id: string, updates: Partial<LayerGroup>) => {
+        setGroups(prev => prev.map(g => g.id === id ? { ...g, ...updates } : g));
+        if (updates.visible === false || updates.locked) {
+            setSelectedIds(prev => prev.filter(sid => elements.find(el => el.id === sid)?.groupId !== id));
+        }
+    };
+
+    const groupSelection = () => {
+        const members = elements.filter(el => selectedIds.includes(el.id));
+        if (members.length < 2) return;
+
+        const group: LayerGroup = { id: `group-${Date.now()}`, name: `Group ${groups.length + 1}`, collapsed: false, visible: true, locked: false };
+        // Gather the members right below the topmost one so the group is a single block in z-order
+        const topIndex = elements.findIndex(el => el.id === members[members.length - 1].id);
+        const below = elements.slice(0, topIndex + 1).filter(el => !selectedIds.includes(el.id));
+        const above = elements.slice(topIndex + 1);
+        const newElements = [...below, ...members.map(el => ({ ...el, groupId: group.id })), ...above];
+
+        const newGroups = [...groups, group];
+        setGroups(newGroups);
+        setElements(newElements);
+        addToHistory(newElements, crop, history[historyIndex]?.imageSrc, newGroups);
+    };
+
+    const ungroup = (groupIds: string[]) => {
+        const newElements = elements.map(el => el.groupId && groupIds.includes(el.groupId) ? { ...el, groupId: undefined } : el);
+        const newGroups = groups.filter(g => !groupIds.includes(g.id));
+        setGroups(newGroups);
+        setElements(newElements);
+        addToHistory(newElements, crop, history[historyIndex]?.imageSrc, newGroups);
+    };
+
+    // Moves whole groups with their members; selecting one member moves its group
+    const moveSelectionToEdge = (edge: 'front' | 'back') => {
+        const groupIds = new Set(elements.filter(el => selectedIds.includes(el.id) && el.groupId).map(el => el.groupId));
+        const isMoving = (el: DrawingElement) => selectedIds.includes(el.id) || (!!el.groupId && groupIds.has(el.groupId));
+        const moving = elements.filter(isMoving);
+        if (!moving.length) return;
+        const rest = elements.filter(el => !isMoving(el));
+        const newElements = edge === 'front' ? [...rest, ...moving] : [...moving, ...rest];
+        setElements(newElements);
+        addToHistory(newElements);
+    };
+
+    // Drops dragged layer rows next to a target row (above = higher in z-order)
+    const moveLayers = (ids: string[], targetId: string, above: boolean, groupId: string | undefined) => {
+        const moving = elements.filter(el => ids.includes(el.id)).map(el => ({ ...el, groupId }));
+        const rest = elements.filter(el => !ids.includes(el.id));
+        let index = rest.findIndex(el => el.id === targetId);
+        if (index < 0 || !moving.length) return;
+        if (above) index += 1;
+        const newElements = [...rest.slice(0, index), ...moving, ...rest.slice(index)];
+        setElements(newElements);
+        addToHistory(newElements);
+    };
+
+    const handleLayerDrop = (target: { kind: 'element' | 'group'; id: string }, above: boolean) => {
+        const dragged = draggedLayerRef.current;
+        draggedLayerRef.current = null;
+        setLayerDropTarget(null);
+        if (!dragged || (dragged.kind === target.kind && dragged.id === target.id)) return;
+
+        // Resolve the target to an element and the group the dropped rows end up in
+        let targetId: string;
+        let targetGroup: string | undefined;
+        if (target.kind === 'group') {
+            const members = groupMemberIds(target.id);
+            if (!members.length) return;
+            if (dragged.kind === 'element') {
+                // Dropping on a group header puts the element on top of that group
+                targetId = members[members.length - 1];
+                above = true;
+                targetGroup = target.id;
+            } else {
+                targetId = above ? members[members.length - 1] : members[0];
+            }
+        } else {
+            const targetEl = elements.find(el => el.id === target.id);
+            if (!targetEl) return;
+            targetId = targetEl.id;
+            targetGroup = targetEl.groupId;
+            if (dragged.kind === 'group' && targetEl.groupId) {
+                // Groups don't nest: land beside the target's group instead
+                const members = groupMemberIds(targetEl.groupId);
+                targetId = above ? members[members.length - 1] : members[0];
+            }
+        }
+
+        if (dragged.kind === 'group') {
+            const members = groupMemberIds(dragged.id);
+            if (members.includes(targetId)) return;
+            moveLayers(members, targetId, above, dragged.id);
+        } else {
+            if (dragged.id === targetId) return;
+            moveLayers([dragged.id], targetId, above, targetGroup);
+        }
+    };
+
+    // Top-most first, each group's header followed by its members
+    const buildLayerRows = () => {
+        const rows: ({ kind: 'group'; group: LayerGroup; members: DrawingElement[] } | { kind: 'element'; element: DrawingElement; inGroup: boolean })[] = [];
+        const seenGroups = new Set<string>();
+        [...elements].reverse().forEach(el => {
+            const group = groupOf(el);
+            if (!group) {
+                rows.push({ kind: 'element', element: el, inGroup: false });
+                return;
+            }
+            if (seenGroups.has(group.id)) return;
+            seenGroups.add(group.id);
+            const members = elements.filter(m => m.groupId === group.id).reverse();
+            rows.push({ kind: 'group', group, members });
+            if (!group.collapsed) members.forEach(m => rows.push({ kind: 'element', element: m, inGroup: true }));
+        });
+        return rows;
+    };
+
     const saveCurrentAsPreset = () => {
         const name = presetNameInput.trim();
         if (elements.length === 0) {
@@ -972,8 +1598,12 @@ function Editor() {
 
     const handleImageFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
-        if (!file) return;
+        if (file) addImageElement(file);
+        e.target.value = '';
+    };
 
+    // Adds an image file (from the Image tool or the clipboard) as an annotation, at most 500px wide
+    const addImageElement = (file: Blob) => {
         const reader = new FileReader();
         reader.onload = (event) => {
             const src = event.target?.result as string;
@@ -1002,70 +1632,694 @@ function Editor() {
             img.src = src;
         };
         reader.readAsDataURL(file);
-        e.target.value = '';
     };
 
-    const undo = () => {
-        if (historyIndex > 0) {
-            setHistoryIndex(historyIndex - 1);
-            setElements([...history[historyIndex - 1]]);
+    const switchPage = (index: number) => {
+        if (index === activePage || !pages[index]) return;
+
+        // Keep the annotations of the page we leave so coming back restores them
+        pageStatesRef.current[activePage] = { elements, history, historyIndex };
+        const saved = pageStatesRef.current[index];
+        setElements(saved ? saved.elements : []);
+        setHistory(saved ? saved.history : [{ elements: [], crop: null }]);
+        setHistoryIndex(saved ? saved.historyIndex : 0);
+        setCrop(saved ? saved.history[saved.historyIndex].crop : null);
+
+        setSelectedId(null);
+        setCurrentElement(null);
+        setCropRect(null);
+        setIsCropping(false);
+        setSuggestions([]);
+        setIsSensitivePanelOpen(false);
+        setTextInput(prev => ({ ...prev, visible: false, editingId: null }));
+        setActivePage(index);
+        openImageSource((saved && saved.history[saved.historyIndex].imageSrc) || pages[index].src);
+    };
+
+    const restoreHistoryEntry = (index: number) => {
+        setHistoryIndex(index);
+        setElements([...history[index].elements]);
+        setCrop(history[index].crop);
+        const stepGroups = history[index].groups;
+        if (stepGroups) {
+            // Brings back the groups of that step (an undone ungroup keeps its name and settings) and drops
+            // the ones made after it, except those the other pages still use; renames and toggles stay as they are
+            const usedElsewhere = new Set(Object.entries(pageStatesRef.current)
+                .filter(([page]) => Number(page) !== activePage)
+                .flatMap(([, state]) => state.elements.map(el => el.groupId)));
+            setGroups([
+                ...stepGroups.map(g => groups.find(current => current.id === g.id) ?? g),
+                ...groups.filter(g => usedElsewhere.has(g.id) && !stepGroups.some(step => step.id === g.id)),
+            ]);
+        }
+        if (tool === 'crop') setCropRect(history[index].crop);
+
+        // Undoing or redoing a rotate/flip swaps the base image back
+        const src = history[index].imageSrc ?? pages[activePage]?.src;
+        if (src && image && src !== image.src) {
+            showBaseImage(src);
+            setSuggestions([]);
+            setIsSensitivePanelOpen(false);
         }
     };
 
+    // Replaces the base image without refitting the zoom, for history steps that changed it
+    const showBaseImage = (src: string) => {
+        const img = new window.Image();
+        img.onload = () => {
+            setImage(img);
+            setStageSize({ width: img.width, height: img.height });
+        };
+        img.src = src;
+    };
+
+    const undo = () => {
+        if (historyIndex > 0) restoreHistoryEntry(historyIndex - 1);
+    };
+
     const redo = () => {
-        if (historyIndex < history.length - 1) {
-            setHistoryIndex(historyIndex + 1);
-            setElements([...history[historyIndex + 1]]);
-        }
+        if (historyIndex < history.length - 1) restoreHistoryEntry(historyIndex + 1);
     };
 
-    const handleDownload = (format: 'png' | 'jpeg') => {
+    // Flattens the stage at `scale` output pixels per image pixel, without editor-only overlays,
+    // placed on the frame when it is enabled. Leaving out the annotations keeps the blur layers,
+    // so an export never shows what they redact
+    const renderExportCanvas = (scale = 1, content: ExportContent = 'all'): HTMLCanvasElement | null => {
         const stage = stageRef.current;
-        if (!stage) return;
-        setSelectedId(null);
-        setTimeout(() => {
-            const link = document.createElement('a');
-            link.download = `screenshot-${Date.now()}.${format}`;
-            link.href = stage.toDataURL({ mimeType: `image/${format}`, quality: 0.9 });
-            link.click();
-        }, 100);
+        if (!stage) return null;
+
+        const elementIds = new Set(elements.filter(el => el.type !== 'blur').map(el => el.id));
+        const hidden = stage.find((node: Konva.Node) => node.hasName('editor-overlay') || (content === 'image' && elementIds.has(node.id())));
+        hidden.forEach(node => node.hide());
+
+        // Area of the selected elements, in stage pixels
+        let area: { x: number; y: number; width: number; height: number } | undefined;
+        if (content === 'selection') {
+            const rects = selectedIds
+                .map(id => stage.findOne(`#${id}`))
+                .filter((node): node is Konva.Node => !!node)
+                .map(node => node.getClientRect());
+            if (rects.length) {
+                const left = Math.max(0, Math.min(...rects.map(r => r.x)));
+                const top = Math.max(0, Math.min(...rects.map(r => r.y)));
+                const right = Math.min(stage.width(), Math.max(...rects.map(r => r.x + r.width)));
+                const bottom = Math.min(stage.height(), Math.max(...rects.map(r => r.y + r.height)));
+                if (right > left && bottom > top) area = { x: left, y: top, width: right - left, height: bottom - top };
+            }
+        }
+
+        const shot = stage.toCanvas({ pixelRatio: scale / zoom, ...area });
+        hidden.forEach(node => node.show());
+        if (!frame.enabled) return shot;
+        return renderFrame(shot, frame, pages[activePage], scale);
     };
 
-    const handleCopy = async () => {
-        const stage = stageRef.current;
-        if (!stage) return;
-        setSelectedId(null);
-        setTimeout(async () => {
-            try {
-                const blob = await (await fetch(stage.toDataURL())).blob();
-                await navigator.clipboard.write([new ClipboardItem({ 'image/png': blob })]);
-                showToast('Copied to clipboard!', 'success');
-            } catch (err) { }
-        }, 100);
+    // File name from the export template, without the page number or extension
+    const filenameFromTemplate = (template: string) => {
+        const page = pages[activePage];
+        const now = new Date();
+        const pad = (n: number) => String(n).padStart(2, '0');
+        let domain = '';
+        try { domain = page?.url ? new URL(page.url).hostname : ''; } catch { }
+
+        return buildFilename(template, {
+            title: page?.title || '',
+            domain,
+            date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+            time: `${pad(now.getHours())}-${pad(now.getMinutes())}-${pad(now.getSeconds())}`,
+            mode: captureMode || '',
+            page: String(activePage + 1),
+        });
     };
 
-    const applyCrop = () => {
-        if (!cropRect || !image) return;
-        const x = cropRect.width < 0 ? cropRect.x + cropRect.width : cropRect.x;
-        const y = cropRect.height < 0 ? cropRect.y + cropRect.height : cropRect.y;
-        const width = Math.abs(cropRect.width);
-        const height = Math.abs(cropRect.height);
+    const exportFilename = (settings = exportSettings) => {
+        const name = filenameFromTemplate(settings.filename);
+        // Parts and capture-set pages get a number unless the template already has one
+        const partSuffix = pages.length > 1 && !settings.filename.includes('{page}')
+            ? (captureSetName ? `-${activePage + 1}` : `-part${activePage + 1}`)
+            : '';
+        return `${name}${partSuffix}.${settings.format === 'jpeg' ? 'jpg' : settings.format}`;
+    };
 
-        const canvas = document.createElement('canvas');
-        canvas.width = width; canvas.height = height;
-        canvas.getContext('2d')?.drawImage(image, x, y, width, height, 0, 0, width, height);
+    // Current annotations and crop of every page, including the ones not open right now
+    const snapshotPageStates = (): PageState[] => pages.map((_, i) => (
+        i === activePage ? { elements, history, historyIndex } : pageStatesRef.current[i] || freshPageState({ elements: [], crop: null })
+    ));
 
-        const newImg = new Image();
-        newImg.onload = () => {
-            setImage(newImg);
-            setStageSize({ width, height });
-            setCropRect(null);
-            setElements([]); setHistory([[]]); setHistoryIndex(0);
-        };
-        newImg.src = canvas.toDataURL();
+    const snapshotPages = (): SavedPage[] => snapshotPageStates().map(state => {
+        const entry = state.history[state.historyIndex];
+        return { elements: state.elements, crop: entry ? entry.crop : null, image: entry?.imageSrc };
+    });
+
+    // Replaces what the editor shows with other images and their annotations; `savedZoom` keeps
+    // the zoom of a restored session instead of fitting the image
+    const openDocument = (docPages: CapturePage[], states: PageState[], index: number, docGroups: LayerGroup[], savedZoom?: number) => {
+        pageStatesRef.current = {};
+        states.forEach((state, i) => { pageStatesRef.current[i] = state; });
+        const state = states[index] || freshPageState({ elements: [], crop: null });
+        const entry = state.history[state.historyIndex];
+
+        setPages(docPages);
+        setCaptureNotice(null);
+        setSuggestions([]);
+        setIsSensitivePanelOpen(false);
+        setGroups(docGroups);
+        setElements(state.elements);
+        setHistory(state.history);
+        setHistoryIndex(state.historyIndex);
+        setCrop(entry.crop);
+        setElementCounter(Math.max(0, ...states.map(p => p.elements.length)) + 1);
+        setSelectedId(null);
+        setCurrentElement(null);
+        setTextInput(prev => ({ ...prev, visible: false, editingId: null }));
+        setActivePage(index);
+        openImageSource(entry.imageSrc || docPages[index].src, savedZoom);
     };
 
-    const cancelCrop = () => { setCropRect(null); setIsCropping(false); };
+    // Starts a session on an image that wasn't captured (a file, the clipboard or a blank canvas) by
+    // storing it like a capture, so it has a history entry and survives a reload
+    const openNewImage = async (blob: Blob, mode: string, title: string) => {
+        if (!blob.type.startsWith('image/')) {
+            showToast('That file is not an image', 'error');
+            return;
+        }
+        try {
+            const id = await addCapture({ mode, title }, [{ blob, label: title }]);
+            window.history.replaceState(null, '', `?capture=${encodeURIComponent(id)}`);
+            setIsStartScreen(false);
+            await openCapture(id);
+        } catch (err) {
+            console.error('Editor: Failed to open the image:', err);
+            showToast('The image could not be opened. The format may not be supported.', 'error');
+        }
+    };
+
+    const createBlankCanvas = async (width: number, height: number, background: string) => {
+        const clampSize = (value: number, fallback: number) => Math.min(MAX_BLANK_SIZE, Math.max(1, Math.round(value) || fallback));
+        const canvas = document.createElement('canvas');
+        canvas.width = clampSize(width, DEFAULT_BLANK.width);
+        canvas.height = clampSize(height, DEFAULT_BLANK.height);
+        const ctx = canvas.getContext('2d');
+        if (ctx) {
+            ctx.fillStyle = background;
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+        }
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+        if (!blob) {
+            setError('The blank canvas could not be created. Try a smaller size.');
+            return;
+        }
+        await openNewImage(blob, 'blank', `Blank canvas ${canvas.width}×${canvas.height}`);
+    };
+
+    const handleBaseImageFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) openNewImage(file, 'file', file.name);
+    };
+
+    const handleBaseImageDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDraggingFile(false);
+        const file = Array.from(e.dataTransfer.files).find(f => f.type.startsWith('image/'));
+        if (file) openNewImage(file, 'file', file.name);
+        else showToast('Drop an image file', 'error');
+    };
+
+    const openCapture = async (id: string) => {
+        const [entry, stored, session] = await Promise.all([getCapture(id), getCaptureImages(id), getSession(id)]);
+        if (!entry || !stored?.images.length) {
+            setError('This capture is no longer in the history. It may have been deleted or removed by the history limit.');
+            return;
+        }
+
+        // Shown straight from the stored blobs; saving a project converts them to data URLs
+        const capturePages = stored.images.map(({ blob, label, url, title }) => ({
+            src: URL.createObjectURL(blob), label, url, title,
+        }));
+        setCaptureId(id);
+        setCaptureMode(entry.mode);
+        setCaptureSetName(entry.name || null);
+        setCaptureText(stored.text || null);
+        document.title = `${entry.name || entry.title || 'Screenshot'} - Screenshot Editor Pro`;
+
+        // The tab's own session comes back with its undo history and zoom; otherwise start from the last annotations
+        const lastPage = capturePages.length - 1;
+        if (session && session.pages.length === capturePages.length) {
+            openDocument(capturePages, session.pages, Math.min(session.activePage, lastPage), session.groups, session.zoom);
+        } else {
+            const saved = entry.annotations;
+            openDocument(capturePages, (saved?.pages || []).map(freshPageState), Math.min(saved?.activePage ?? 0, lastPage), saved?.groups || []);
+        }
+
+        const notices: string[] = [];
+        if (entry.failed?.length) {
+            notices.push(`${entry.failed.length} tab(s) could not be captured: ${entry.failed.join(', ')}.`);
+        }
+        if (entry.mode !== 'batch' && capturePages.length > 1) {
+            notices.push(`This page was too tall for a single image, so it was split into ${capturePages.length} parts. Use the part switcher at the top to open and export each one.`);
+        }
+        if (entry.truncated?.length) {
+            notices.push(entry.mode === 'batch'
+                ? `The capture reached the frame or image width limit on ${entry.truncated.join(', ')}, so the bottom or right edge of those pages may be missing.`
+                : 'The capture reached the frame or image width limit, so the bottom or right edge of the page may be missing.');
+        }
+        if (notices.length) setCaptureNotice(notices.join(' '));
+    };
+
+    // Releases the object URLs of pages that were replaced (another document, burnt-in redactions)
+    useEffect(() => {
+        const current = pages.map(p => p.src).filter(src => src.startsWith('blob:'));
+        pageUrlsRef.current.filter(url => !current.includes(url)).forEach(url => URL.revokeObjectURL(url));
+        pageUrlsRef.current = current;
+    }, [pages]);
+
+    useEffect(() => () => pageUrlsRef.current.forEach(url => URL.revokeObjectURL(url)), []);
+
+    // Autosaves the tab's session shortly after every change, so a reload or crash picks up where it left off
+    // (`pages` is a dependency because Apply Redactions also rewrites the pages that aren't open)
+    useEffect(() => {
+        if (!captureId || !image) return;
+        const timer = setTimeout(() => {
+            saveSession(captureId, { pages: snapshotPageStates(), activePage, groups, zoom })
+                .catch(err => console.warn('Editor: Failed to save the session:', err));
+        }, 500);
+        return () => clearTimeout(timer);
+    }, [captureId, image, pages, elements, history, historyIndex, groups, activePage, zoom]);
+
+    // Writes every page with its annotations and crop to a project file that can be opened again later
+    const saveProject = async () => {
+        const toDataUrl = async (src: string) => src.startsWith('blob:') ? blobToDataUrl(await (await fetch(src)).blob()) : src;
+        const projectPages: ProjectPage[] = await Promise.all(snapshotPages().map(async (saved, i) => ({
+            image: saved.image || await toDataUrl(pages[i].src),
+            label: pages[i].label,
+            url: pages[i].url,
+            title: pages[i].title,
+            elements: saved.elements,
+            crop: saved.crop,
+        })));
+        const project = createProject({
+            name: captureSetName || undefined,
+            mode: captureMode || undefined,
+            groups,
+            pages: projectPages,
+            activePage,
+        });
+
+        const url = URL.createObjectURL(new Blob([JSON.stringify(project)], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.download = `${filenameFromTemplate(exportSettings.filename.replace(/-?\{page\}/g, ''))}${PROJECT_EXTENSION}`;
+        link.href = url;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+        showToast('Project saved', 'success');
+    };
+
+    const handleProjectFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const project = parseProject(await file.text());
+            // The project becomes a capture of its own, and this tab its session
+            const id = await addCapture(
+                { mode: project.mode || 'project', name: project.name, url: project.pages[0].url, title: project.pages[0].title || file.name },
+                await Promise.all(project.pages.map(async p => ({ blob: await dataUrlToBlob(p.image), label: p.label, url: p.url, title: p.title }))),
+            );
+            window.history.replaceState(null, '', `?capture=${encodeURIComponent(id)}`);
+            document.title = `${project.name || file.name} - Screenshot Editor Pro`;
+            setCaptureId(id);
+            setCaptureSetName(project.name || null);
+            setCaptureMode(project.mode || null);
+            setCaptureText(null);
+            openDocument(
+                project.pages.map(p => ({ src: p.image, label: p.label, url: p.url, title: p.title })),
+                project.pages.map(p => freshPageState({ elements: p.elements, crop: p.crop })),
+                project.activePage,
+                project.groups,
+            );
+            selectTool('select');
+            showToast(`Opened ${file.name}`, 'success');
+        } catch (err) {
+            showToast(err instanceof Error ? err.message : 'Could not open the project', 'error');
+        }
+    };
+
+    const updateExportSettings = (updates: Partial<ExportSettings>) => {
+        const next = { ...exportSettings, ...updates };
+        setExportSettings(next);
+        browser.storage.local.set({ exportSettings: next }).catch(() => { });
+    };
+
+    const handleDownload = () => {
+        const { format, quality, scale, content } = exportSettings;
+        const canvas = renderExportCanvas(scale, content);
+        if (!canvas) return;
+        const link = document.createElement('a');
+        link.download = exportFilename();
+        link.href = canvas.toDataURL(`image/${format}`, quality);
+        link.click();
+        setIsExportOpen(false);
+    };
+
+    // The clipboard only takes PNG, so format and quality don't apply here
+    const handleCopy = async () => {
+        try {
+            const canvas = renderExportCanvas(exportSettings.scale, exportSettings.content);
+            if (!canvas) return;
+            const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+            if (!blob) return;
+            await navigator.clipboard.write([new ClipboardItem({ 'image/png': blob })]);
+            showToast('Copied to clipboard!', 'success');
+            setIsExportOpen(false);
+        } catch (err) {
+            console.error('Editor: Failed to copy to the clipboard:', err);
+            showToast('Could not copy to the clipboard', 'error');
+        }
+    };
+
+    const updateFrame = (updates: Partial<FrameSettings>) => {
+        const next = { ...frame, ...updates };
+        setFrame(next);
+        browser.storage.local.set({ frameSettings: next }).catch(() => { });
+    };
+
+    // Small preview of the framed export, refreshed while the Frame panel is open
+    useEffect(() => {
+        if (!isFramePanelOpen) return;
+        const timer = setTimeout(() => {
+            const canvas = renderExportCanvas(Math.min(1, 480 / view.width));
+            setFramePreview(canvas ? canvas.toDataURL() : null);
+        }, 200);
+        return () => clearTimeout(timer);
+    }, [isFramePanelOpen, frame, elements, image, crop, zoom]);
+
+    const applyCrop = () => {
+        if (!cropRect || !image) return;
+        const rect = clampCrop(cropRect);
+        if (rect.width < 1 || rect.height < 1) return;
+
+        // A crop covering the whole image is the same as no crop
+        const isFullImage = rect.x === 0 && rect.y === 0 && rect.width === stageSize.width && rect.height === stageSize.height;
+        const newCrop = isFullImage ? null : rect;
+        setCrop(newCrop);
+        addToHistory(elements, newCrop);
+        selectTool('select');
+    };
+
+    // Matches the capture's page text against the built-in and custom patterns and proposes a blur for each hit
+    const findSensitive = () => {
+        if (!captureText || !image) return;
+        // The text positions were recorded on the captured image; they don't follow a rotate or flip
+        if (isImageTurned) {
+            showToast('Undo the rotation or flip to find sensitive data', 'info');
+            return;
+        }
+
+        let custom: RegExp[];
+        try {
+            custom = compileCustomPatterns(customPatterns.split('\n'));
+        } catch (err) {
+            showToast(`Invalid pattern: ${(err as Error).message}`, 'error');
+            return;
+        }
+        browser.storage.local.set({ sensitivePatterns: customPatterns.split('\n').filter(p => p.trim()) }).catch(() => { });
+
+        // Tall captures are split into parts; only the matches on the open part are shown
+        const { dpr } = captureText;
+        const offsetY = activePage * (captureText.tileHeight || 0);
+        const padding = 2;
+        const found = findSensitiveData(captureText, custom)
+            .map(match => ({
+                kind: match.kind,
+                text: match.text,
+                x: Math.floor(match.x * dpr) - padding,
+                y: Math.floor(match.y * dpr - offsetY) - padding,
+                width: Math.ceil(match.width * dpr) + padding * 2,
+                height: Math.ceil(match.height * dpr) + padding * 2,
+            }))
+            // Drop matches on other parts before clamping, or they'd all pile up at the top edge
+            .filter(s => s.x < image.width && s.x + s.width > 0 && s.y < image.height && s.y + s.height > 0)
+            .map((s, i) => {
+                const x = Math.max(0, s.x);
+                const y = Math.max(0, s.y);
+                return { ...s, id: `suggestion-${i}`, x, y, width: s.width - (x - s.x), height: s.height - (y - s.y) };
+            });
+
+        setSuggestions(found);
+        setIsSensitivePanelOpen(true);
+        if (!found.length) showToast('No sensitive data found', 'info');
+    };
+
+    const acceptSuggestions = (ids: string[]) => {
+        const accepted = suggestions.filter(s => ids.includes(s.id));
+        if (!accepted.length) return;
+
+        const settings = toolSettingsRef.current.blur;
+        const mode = settings.blurMode || 'pixelate';
+        const stamp = Date.now();
+        const blurs: DrawingElement[] = accepted.map((s, i) => ({
+            id: `element-${stamp}-${i}`,
+            type: 'blur',
+            x: s.x,
+            y: s.y,
+            width: s.width,
+            height: s.height,
+            color: '#000000',
+            strokeWidth: 0,
+            visible: true,
+            name: `${SENSITIVE_LABELS[s.kind]} ${elementCounter + i}`,
+            opacity: 1,
+            blurMode: mode,
+            blurStrength: settings.blurStrength ?? DEFAULT_BLUR_STRENGTH[mode],
+            blurShape: 'rect',
+        }));
+
+        const newElements = [...elements, ...blurs];
+        setElements(newElements);
+        addToHistory(newElements);
+        setElementCounter(prev => prev + blurs.length);
+        setSuggestions(prev => prev.filter(s => !ids.includes(s.id)));
+    };
+
+    const rejectSuggestions = (ids: string[]) => {
+        setSuggestions(prev => prev.filter(s => !ids.includes(s.id)));
+    };
+
+    // Rotates or flips the base image and moves every annotation and the crop along with it
+    const turnImage = (turn: ImageTurn) => {
+        if (!image) return;
+        const W = image.width;
+        const H = image.height;
+        const quarter = turn === 'rotate-cw' || turn === 'rotate-ccw';
+        const angle = turn === 'rotate-cw' ? 90 : turn === 'rotate-ccw' ? -90 : turn === 'rotate-180' ? 180 : 0;
+        const flipped = angle === 0;
+
+        const canvas = document.createElement('canvas');
+        canvas.width = quarter ? H : W;
+        canvas.height = quarter ? W : H;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        if (turn === 'rotate-cw') { ctx.translate(H, 0); ctx.rotate(Math.PI / 2); }
+        else if (turn === 'rotate-ccw') { ctx.translate(0, W); ctx.rotate(-Math.PI / 2); }
+        else if (turn === 'rotate-180') { ctx.translate(W, H); ctx.rotate(Math.PI); }
+        else if (turn === 'flip-h') { ctx.translate(W, 0); ctx.scale(-1, 1); }
+        else { ctx.translate(0, H); ctx.scale(1, -1); }
+        ctx.drawImage(image, 0, 0);
+
+        const map = (x: number, y: number): [number, number] => {
+            switch (turn) {
+                case 'rotate-cw': return [H - y, x];
+                case 'rotate-ccw': return [y, W - x];
+                case 'rotate-180': return [W - x, H - y];
+                case 'flip-h': return [W - x, y];
+                default: return [x, H - y];
+            }
+        };
+        // Image-space boxes stay axis-aligned: map the corners and take their bounds
+        const mapBox = (box: CropRect): CropRect => {
+            const [x1, y1] = map(box.x, box.y);
+            const [x2, y2] = map(box.x + box.width, box.y + box.height);
+            return { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+        };
+        const rad = (angle * Math.PI) / 180;
+        const turnPoints = (points?: number[]) => points?.map((p, i, all) => i % 2 === 0
+            ? (flipped ? (turn === 'flip-h' ? -p : p) : Math.round(p * Math.cos(rad) - all[i + 1] * Math.sin(rad)))
+            : (flipped ? (turn === 'flip-v' ? -p : p) : Math.round(all[i - 1] * Math.sin(rad) + p * Math.cos(rad))));
+
+        const newElements = elements.map((el): DrawingElement => {
+            const rotation = el.rotation || 0;
+
+            if (el.type === 'blur') {
+                if (isFreehandBlur(el)) {
+                    const mapped: number[] = [];
+                    const pts = el.points || [];
+                    for (let i = 0; i < pts.length; i += 2) mapped.push(...map(el.x + pts[i], el.y + pts[i + 1]));
+                    const x = Math.min(...mapped.filter((_, i) => i % 2 === 0));
+                    const y = Math.min(...mapped.filter((_, i) => i % 2 === 1));
+                    return { ...el, ...mapBox({ x: el.x, y: el.y, width: el.width || 0, height: el.height || 0 }), points: mapped.map((p, i) => i % 2 === 0 ? p - x : p - y) };
+                }
+                return { ...el, ...mapBox({ x: el.x, y: el.y, width: el.width || 0, height: el.height || 0 }) };
+            }
+
+            // Badges stay upright; only their position and leader line turn
+            if (el.type === 'step') {
+                const [x, y] = map(el.x, el.y);
+                return { ...el, x, y, points: turnPoints(el.points), rotation: flipped ? -rotation : rotation };
+            }
+
+            if (!flipped) {
+                const [x, y] = map(el.x, el.y);
+                return { ...el, x, y, rotation: (rotation + angle + 360) % 360 };
+            }
+
+            if (el.points && ['pencil', 'line', 'arrow'].includes(el.type)) {
+                const [x, y] = map(el.x, el.y);
+                return { ...el, x, y, points: turnPoints(el.points), rotation: -rotation };
+            }
+
+            // Boxes are mirrored by moving the opposite corner to the top-left; their content isn't mirrored
+            const node = stageRef.current?.findOne(`#${el.id}`);
+            const width = el.width ?? node?.width() ?? 0;
+            const height = el.height ?? node?.height() ?? 0;
+            const r = (rotation * Math.PI) / 180;
+            const corner: [number, number] = turn === 'flip-h'
+                ? [el.x + width * Math.cos(r), el.y + width * Math.sin(r)]
+                : [el.x - height * Math.sin(r), el.y + height * Math.cos(r)];
+            const [x, y] = map(...corner);
+            return { ...el, x, y, rotation: -rotation };
+        });
+        const newCrop = crop ? mapBox(crop) : null;
+
+        const src = canvas.toDataURL();
+        const newImg = new Image();
+        newImg.onload = () => {
+            setImage(newImg);
+            setStageSize({ width: newImg.width, height: newImg.height });
+            setElements(newElements);
+            setCrop(newCrop);
+            if (tool === 'crop' && cropRect) setCropRect(mapBox(clampCrop(cropRect)));
+            setSuggestions([]);
+            setIsSensitivePanelOpen(false);
+            addToHistory(newElements, newCrop, src);
+        };
+        newImg.src = src;
+    };
+
+    // Part of the image on the stage: all of it while the crop is being edited
+    const view: CropRect = tool !== 'crop' && crop ? crop : { x: 0, y: 0, width: stageSize.width, height: stageSize.height };
+
+    const cancelCrop = () => { setCropRect(null); setIsCropping(false); selectTool('select'); };
+
+    // Replaces the image in the history library, so the unredacted original is gone from disk too
+    const storeRedactedPage = async (index: number, src: string) => {
+        if (captureId) await replaceCaptureImage(captureId, index, await dataUrlToBlob(src));
+    };
+
+    const loadImageElement = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+        const img = new window.Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('The image could not be loaded'));
+        img.src = src;
+    });
+
+    // Page image with the blur regions drawn into its pixels, as a data URL
+    const burnInRedactions = (base: HTMLImageElement, redactions: DrawingElement[]) =>
+        burnInBlurRegions(base, redactions.map(blurRegionOf)).toDataURL();
+
+    // Burns every blur region (hidden ones included) into the pixels of each page that has any, parts
+    // and capture-set images that aren't open included, and drops the blur layers
+    const applyRedactions = async () => {
+        if (!image) return;
+        const targets = snapshotPageStates()
+            .map((state, index) => ({ index, state, redactions: state.elements.filter(el => el.type === 'blur') }))
+            .filter(target => target.redactions.length);
+        if (!targets.length) return;
+
+        let redacted: { index: number; src: string; img: HTMLImageElement; state: PageState }[];
+        try {
+            redacted = await Promise.all(targets.map(async ({ index, state, redactions }) => {
+                const entry = state.history[state.historyIndex];
+                const base = index === activePage ? image : await loadImageElement(entry.imageSrc || pages[index].src);
+                const src = burnInRedactions(base, redactions);
+                const kept = state.elements.filter(el => el.type !== 'blur');
+                // Earlier steps still show the unredacted image, so burning in starts a fresh history
+                return { index, src, img: await loadImageElement(src), state: { elements: kept, history: [{ elements: kept, crop: entry.crop }], historyIndex: 0 } };
+            }));
+        } catch (err) {
+            console.error('Editor: Failed to apply redactions:', err);
+            showToast('Redactions could not be applied', 'error');
+            return;
+        }
+
+        redacted.forEach(({ index, img, state }) => {
+            if (index !== activePage) {
+                pageStatesRef.current[index] = state;
+                return;
+            }
+            setImage(img);
+            setElements(state.elements);
+            setHistory(state.history);
+            setHistoryIndex(0);
+            setSelectedIds(prev => prev.filter(id => state.elements.some(el => el.id === id)));
+        });
+        setPages(prev => prev.map((p, i) => {
+            const page = redacted.find(r => r.index === i);
+            return page ? { ...p, src: page.src } : p;
+        }));
+        // The recorded page text still contains what was just redacted
+        setCaptureText(null);
+        setSuggestions([]);
+        setIsSensitivePanelOpen(false);
+
+        const count = targets.reduce((sum, target) => sum + target.redactions.length, 0);
+        const where = pages.length > 1 ? ` on ${redacted.length} of ${pages.length} images` : '';
+        try {
+            for (const { index, src } of redacted) await storeRedactedPage(index, src);
+            showToast(`${count} redaction(s) applied${where}`, 'success');
+        } catch {
+            showToast('Redactions applied, but the original capture could not be removed from storage', 'error');
+        }
+    };
+
+    // Blur layers that won't hide much in the export: hidden, less than half opaque (the content
+    // shows through), or drawn so thin they cover next to nothing
+    const findIneffectiveRedactions = () => elements.filter(el => {
+        if (el.type !== 'blur') return false;
+        const { width, height } = blurRegionOf(el);
+        return !isElementShown(el) || (el.opacity ?? 1) < 0.5 || width < 2 || height < 2;
+    });
+
+    const runExport = (action: ExportAction) => {
+        if (action === 'copy') handleCopy();
+        else handleDownload();
+    };
+
+    const exportWithAudit = (action: ExportAction) => {
+        const ineffective = findIneffectiveRedactions();
+        if (ineffective.length) {
+            setRedactionPrompt({ kind: 'audit', ids: ineffective.map(el => el.id), action });
+        } else {
+            runExport(action);
+        }
+    };
+
+    // Makes the flagged redactions visible and opaque, then runs the export that was held back
+    const fixRedactionsAndExport = (ids: string[], action: ExportAction) => {
+        const groupIds = new Set(elements.filter(el => ids.includes(el.id) && el.groupId).map(el => el.groupId as string));
+        setGroups(prev => prev.map(g => groupIds.has(g.id) ? { ...g, visible: true } : g));
+        updateElementsProperty(ids, { visible: true, opacity: 1 });
+        setRedactionPrompt(null);
+        setPendingExport(action);
+    };
+
+    // Effects run after the stage has been updated, so the export sees the redactions just fixed
+    useEffect(() => {
+        if (!pendingExport) return;
+        setPendingExport(null);
+        runExport(pendingExport);
+    }, [pendingExport]);
 
     const getElementIcon = (type: Tool) => {
         switch (type) {
@@ -1076,25 +2330,255 @@ function Editor() {
             case 'rectangle': return <IconSquare />;
             case 'circle': return <IconCircle />;
             case 'text': return <IconType />;
+            case 'step': return <IconStep />;
             case 'blur': return <IconBlur />;
             case 'image': return <IconImage />;
             default: return null;
         }
     };
 
-    const tools: { id: Tool; icon: React.ReactNode; label: string }[] = [
-        { id: 'crop', icon: <IconCrop />, label: 'Crop' },
-        { id: 'pencil', icon: <IconPencil />, label: 'Pencil' },
-        { id: 'line', icon: <IconLine />, label: 'Line' },
-        { id: 'arrow', icon: <IconArrow />, label: 'Arrow' },
-        { id: 'rectangle', icon: <IconSquare />, label: 'Rectangle' },
-        { id: 'circle', icon: <IconCircle />, label: 'Circle' },
-        { id: 'text', icon: <IconType />, label: 'Text' },
-        { id: 'blur', icon: <IconBlur />, label: 'Blur' },
-        { id: 'image', icon: <IconImage />, label: 'Image' },
+    const tools: { id: Tool; icon: React.ReactNode; label: string; shortcut: string }[] = [
+        { id: 'select', icon: <IconPointer />, label: 'Select', shortcut: 'V' },
+        { id: 'crop', icon: <IconCrop />, label: 'Crop', shortcut: 'C' },
+        { id: 'pencil', icon: <IconPencil />, label: 'Pencil', shortcut: 'P' },
+        { id: 'line', icon: <IconLine />, label: 'Line', shortcut: 'L' },
+        { id: 'arrow', icon: <IconArrow />, label: 'Arrow', shortcut: 'A' },
+        { id: 'rectangle', icon: <IconSquare />, label: 'Rectangle', shortcut: 'R' },
+        { id: 'circle', icon: <IconCircle />, label: 'Circle', shortcut: 'O' },
+        { id: 'text', icon: <IconType />, label: 'Text', shortcut: 'T' },
+        { id: 'step', icon: <IconStep />, label: 'Step', shortcut: 'N' },
+        { id: 'blur', icon: <IconBlur />, label: 'Blur', shortcut: 'B' },
+        { id: 'image', icon: <IconImage />, label: 'Image', shortcut: 'I' },
     ];
 
+    const selectTool = (t: Tool) => {
+        if (t === 'image') {
+            triggerImageUpload();
+        } else {
+            setTool(t);
+            loadToolSettings(t);
+        }
+    };
+
+    const pasteElements = (sources: DrawingElement[]) => {
+        const stamp = Date.now();
+        const copies: DrawingElement[] = sources.map((source, i) => ({
+            ...source,
+            id: `element-${stamp}-${i}`,
+            x: source.x + 20,
+            y: source.y + 20,
+            name: `${source.name} copy`,
+            visible: true,
+            locked: false,
+        }));
+        const newElements = [...elements, ...copies];
+        setElements(newElements);
+        addToHistory(newElements);
+        setSelectedIds(copies.map(c => c.id));
+        // Pasting again keeps cascading instead of stacking on the same spot
+        elementClipboardRef.current = copies;
+    };
+
+    const handleGlobalKeyDown = (e: KeyboardEvent) => {
+        // Leave typing alone: the floating text input and every sidebar field handle their own keys
+        const target = e.target as HTMLElement | null;
+        if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) return;
+        if (textInput.visible || !image) return;
+
+        const mod = e.ctrlKey || e.metaKey;
+        const key = e.key.toLowerCase();
+        const selected = elements.filter(el => selectedIds.includes(el.id));
+        // Keyboard edits that move or remove elements leave locked ones alone
+        const editable = selected.filter(el => !isElementLocked(el));
+
+        if (redactionPrompt) {
+            if (e.key === 'Escape') setRedactionPrompt(null);
+            return;
+        }
+
+        if (isExportOpen) {
+            if (e.key === 'Escape') setIsExportOpen(false);
+            return;
+        }
+
+        if (e.key === '?') {
+            e.preventDefault();
+            setIsShortcutsOpen(open => !open);
+            return;
+        }
+
+        if (e.key === 'Escape') {
+            if (isShortcutsOpen) setIsShortcutsOpen(false);
+            else if (cropRect) cancelCrop();
+            else setSelectedId(null);
+            return;
+        }
+
+        if (mod) {
+            if (key === 'z') {
+                e.preventDefault();
+                if (e.shiftKey) redo(); else undo();
+            } else if (key === 'y') {
+                e.preventDefault();
+                redo();
+            } else if (key === 'a') {
+                e.preventDefault();
+                setSelectedIds(elements.filter(el => isElementShown(el) && !isElementLocked(el)).map(el => el.id));
+            } else if (key === 'c' && selected.length) {
+                e.preventDefault();
+                elementClipboardRef.current = selected;
+                elementsCopiedRef.current = true;
+                showToast(selected.length > 1 ? `${selected.length} elements copied` : 'Element copied', 'info');
+            } else if (key === 'd' && selected.length) {
+                e.preventDefault();
+                pasteElements(selected);
+            } else if (key === 'g') {
+                e.preventDefault();
+                if (e.shiftKey) {
+                    ungroup(Array.from(new Set(selected.map(el => el.groupId).filter((id): id is string => !!id))));
+                } else {
+                    groupSelection();
+                }
+            } else if ((e.code === 'BracketRight' || e.code === 'BracketLeft') && e.shiftKey && selected.length) {
+                e.preventDefault();
+                moveSelectionToEdge(e.code === 'BracketRight' ? 'front' : 'back');
+            } else if (key === '=' || key === '+') {
+                e.preventDefault();
+                setZoom(z => Math.min(3, z + 0.1));
+            } else if (key === '-') {
+                e.preventDefault();
+                setZoom(z => Math.max(0.1, z - 0.1));
+            } else if (key === '0') {
+                e.preventDefault();
+                setZoom(1);
+            }
+            return;
+        }
+
+        if (e.altKey) return;
+
+        if ((e.key === 'Delete' || e.key === 'Backspace') && editable.length) {
+            e.preventDefault();
+            deleteElements(editable.map(el => el.id));
+            return;
+        }
+
+        if (e.key.startsWith('Arrow') && editable.length) {
+            e.preventDefault();
+            const step = e.shiftKey ? 10 : 1;
+            const dx = e.key === 'ArrowLeft' ? -step : e.key === 'ArrowRight' ? step : 0;
+            const dy = e.key === 'ArrowUp' ? -step : e.key === 'ArrowDown' ? step : 0;
+            const newElements = elements.map(el => editable.includes(el) ? { ...el, x: el.x + dx, y: el.y + dy } : el);
+            setElements(newElements);
+            addToHistory(newElements);
+            return;
+        }
+
+        if (e.key === 'Enter' && cropRect && !isCropping) {
+            e.preventDefault();
+            applyCrop();
+            return;
+        }
+
+        const toolMatch = tools.find(t => t.shortcut.toLowerCase() === key);
+        if (toolMatch && !e.shiftKey) {
+            e.preventDefault();
+            selectTool(toolMatch.id);
+        }
+    };
+
+    // The listener is registered once and always calls the latest handler
+    const globalKeyDownRef = useRef(handleGlobalKeyDown);
+    globalKeyDownRef.current = handleGlobalKeyDown;
+
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => globalKeyDownRef.current(e);
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, []);
+
+    // Ctrl/⌘+V opens the image on the clipboard from the start screen; while editing it pastes the
+    // copied elements, or adds the clipboard's image as an annotation
+    const handleGlobalPaste = (e: ClipboardEvent) => {
+        const file = Array.from(e.clipboardData?.files || []).find(f => f.type.startsWith('image/'));
+        if (isStartScreen) {
+            if (!file) return;
+            e.preventDefault();
+            openNewImage(file, 'paste', 'Pasted image');
+            return;
+        }
+
+        const target = e.target as HTMLElement | null;
+        if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) return;
+        if (textInput.visible || !image) return;
+
+        const copied = elementClipboardRef.current;
+        if (copied.length && (elementsCopiedRef.current || !file)) {
+            e.preventDefault();
+            pasteElements(copied);
+        } else if (file) {
+            e.preventDefault();
+            addImageElement(file);
+        }
+    };
+
+    const globalPasteRef = useRef(handleGlobalPaste);
+    globalPasteRef.current = handleGlobalPaste;
+
+    useEffect(() => {
+        const onPaste = (e: ClipboardEvent) => globalPasteRef.current(e);
+        const onFocus = () => { elementsCopiedRef.current = false; };
+        window.addEventListener('paste', onPaste);
+        window.addEventListener('focus', onFocus);
+        return () => {
+            window.removeEventListener('paste', onPaste);
+            window.removeEventListener('focus', onFocus);
+        };
+    }, []);
+
+    const toastList = (
+        <div className="toast-container">
+            {toasts.map(t => (
+                <div key={t.id} className={`toast toast-${t.type}`}>
+                    {t.type === 'success' && <IconCheck />}
+                    {t.type === 'error' && <IconAlert />}
+                    {t.type === 'info' && <IconBookmark />}
+                    <span>{t.message}</span>
+                </div>
+            ))}
+        </div>
+    );
+
     if (error) return <div className="editor-loading"><p><IconAlert /> {error}</p></div>;
+    if (isStartScreen) {
+        return (
+            <div
+                className={`editor-start ${isDraggingFile ? 'dragging' : ''}`}
+                onDragOver={(e) => { e.preventDefault(); setIsDraggingFile(true); }}
+                onDragLeave={(e) => { if (e.currentTarget === e.target) setIsDraggingFile(false); }}
+                onDrop={handleBaseImageDrop}
+            >
+                <div className="start-card">
+                    <img src={logo} alt="Screenshot Editor Pro" className="brand-logo" />
+                    <button className="btn-primary-solid" onClick={() => baseImageInputRef.current?.click()}>
+                        <IconImage /> Open Image
+                    </button>
+                    <span className="start-hint">or drop an image here, or paste one with Ctrl/⌘+V</span>
+                    <input type="file" ref={baseImageInputRef} style={{ display: 'none' }} accept="image/*" onChange={handleBaseImageFileChange} />
+
+                    <div className="start-divider"><span>New blank canvas</span></div>
+                    <div className="start-blank">
+                        <input type="number" min={1} max={MAX_BLANK_SIZE} value={blankCanvas.width} onChange={(e) => setBlankCanvas({ ...blankCanvas, width: parseInt(e.target.value) || 0 })} title="Width (px)" />
+                        <span>&times;</span>
+                        <input type="number" min={1} max={MAX_BLANK_SIZE} value={blankCanvas.height} onChange={(e) => setBlankCanvas({ ...blankCanvas, height: parseInt(e.target.value) || 0 })} title="Height (px)" />
+                        <input type="color" value={blankCanvas.background} onChange={(e) => setBlankCanvas({ ...blankCanvas, background: e.target.value })} title="Background color" />
+                        <button className="btn-secondary" onClick={() => createBlankCanvas(blankCanvas.width, blankCanvas.height, blankCanvas.background)}>Create</button>
+                    </div>
+                </div>
+                {toastList}
+            </div>
+        );
+    }
     // Note: imageData is cleared after load to save memory, so we only need to check for image
     if (!image) return <div className="editor-loading"><div className="spinner"></div><p>Loading...</p></div>;
 
@@ -1106,12 +2590,13 @@ function Editor() {
     };
 
     const renderElement = (el: DrawingElement) => {
-        if (!el.visible || (textInput.visible && textInput.editingId === el.id)) return null;
+        if (!isElementShown(el) || (textInput.visible && textInput.editingId === el.id)) return null;
+        const locked = isElementLocked(el);
         const commonProps: any = {
-            key: el.id, id: el.id, x: el.x, y: el.y, draggable: true, opacity: el.opacity ?? 1, dash: el.dash,
-            onMouseDown: (e: any) => { e.cancelBubble = true; handleElementClick(el.id); },
+            key: el.id, id: el.id, x: el.x, y: el.y, rotation: el.type === 'blur' ? 0 : el.rotation || 0,
+            draggable: !locked, listening: !locked, opacity: el.opacity ?? 1, dash: el.dash,
+            onMouseDown: (e: any) => { e.cancelBubble = true; handleCanvasElementMouseDown(el, e.evt.shiftKey || e.evt.ctrlKey || e.evt.metaKey); },
             onDragEnd: (e: any) => handleDragEnd(el.id, e),
-            onTransformEnd: (e: any) => handleTransformEnd(el.id, e),
         };
 
         switch (el.type) {
@@ -1119,10 +2604,16 @@ function Editor() {
             case 'line': return <Line {...commonProps} points={el.points} stroke={el.color} strokeWidth={el.strokeWidth} lineCap="round" />;
             case 'arrow': return <Arrow {...commonProps} points={el.points} stroke={el.color} fill={el.color} strokeWidth={el.strokeWidth} pointerLength={el.strokeWidth * 4} pointerWidth={el.strokeWidth * 3} pointerAtBeginning={el.pointerAtStart} />;
             case 'rectangle': return <Rect {...commonProps} width={el.width} height={el.height} stroke={el.color} strokeWidth={el.strokeWidth} fill={el.filled ? el.color + '4D' : 'rgba(0,0,0,0.05)'} />;
-            case 'blur': return <PixelatedBlur image={image} x={el.x} y={el.y} width={el.width || 0} height={el.height || 0} pixelSize={12} commonProps={commonProps} />;
+            case 'blur':
+                // A freehand outline is shown as-is until it is closed on mouse up
+                if (el === currentElement && isFreehandBlur(el)) {
+                    return <Line {...commonProps} points={el.points} closed stroke="#6b7280" strokeWidth={2 / zoom} dash={[6 / zoom, 4 / zoom]} fill="rgba(128, 128, 128, 0.3)" />;
+                }
+                return <BlurElement image={image} region={blurRegionOf(el)} commonProps={commonProps} />;
             case 'circle': return <Ellipse {...commonProps} radiusX={(el.width || 0) / 2} radiusY={(el.height || 0) / 2} stroke={el.color} strokeWidth={el.strokeWidth} fill={el.filled ? el.color + '4D' : 'rgba(0,0,0,0.05)'} offsetX={-(el.width || 0) / 2} offsetY={-(el.height || 0) / 2} />;
             case 'text': return <Text {...commonProps} key={`${el.id}-${el.fontFamily}-${el.fontSize}-${loadedFonts.includes(el.fontFamily || 'Inter')}`} text={transformText(el.text || '', el.textCase)} fontSize={el.fontSize || 24} fontFamily={el.fontFamily || 'Inter'} fontStyle="bold" fill={el.color} stroke={el.strokeColor || el.color} strokeWidth={el.strokeWidth || 0} shadowColor={el.shadowColor} shadowBlur={el.shadowBlur} shadowOffsetX={el.shadowOffset} shadowOffsetY={el.shadowOffset} letterSpacing={el.letterSpacing} lineHeight={el.lineHeight} align={el.align} />;
             case 'image': return <ImageElement src={el.imageSrc || ''} commonProps={commonProps} width={el.width} height={el.height} />;
+            case 'step': return <StepMarker number={stepNumberOf(el)} color={el.color} size={el.width || 48} shape={el.stepShape || 'circle'} leaderPoints={el.leader ? el.points : undefined} commonProps={commonProps} />;
             default: return null;
         }
     };
@@ -1132,8 +2623,23 @@ function Editor() {
             <header className="editor-header">
                 <div className="header-left">
                     <img src={logo} alt="Screenshot Editor Pro" className="brand-logo" />
+                    {captureSetName && (
+                        <span className="capture-set-name" title={captureSetName}>{captureSetName}</span>
+                    )}
+                    {pages.length > 1 && !captureSetName && (
+                        <div className="page-switcher">
+                            <button onClick={() => switchPage(activePage - 1)} disabled={activePage === 0} title="Previous part"><IconChevronLeft /></button>
+                            <select value={activePage} onChange={(e) => switchPage(parseInt(e.target.value))}>
+                                {pages.map((p, i) => <option key={i} value={i}>{p.label} of {pages.length}</option>)}
+                            </select>
+                            <button onClick={() => switchPage(activePage + 1)} disabled={activePage >= pages.length - 1} title="Next part"><IconChevronRight /></button>
+                        </div>
+                    )}
                 </div>
                 <div className="header-actions">
+                    <button onClick={() => projectInputRef.current?.click()} title="Open Project"><IconFolder /></button>
+                    <button onClick={saveProject} title="Save Project"><IconSave /></button>
+                    <input type="file" ref={projectInputRef} style={{ display: 'none' }} accept=".json,application/json" onChange={handleProjectFileChange} />
                     <div className="templates-menu-wrapper" ref={templatesRef}>
                         <button
                             className={`btn-toolbar templates-trigger ${isTemplatesOpen ? 'active' : ''}`}
@@ -1194,33 +2700,60 @@ function Editor() {
 
                     <div className="header-divider"></div>
                     <div className="action-group">
-                        <button onClick={undo} disabled={historyIndex <= 0} title="Undo"><IconUndo /></button>
-                        <button onClick={redo} disabled={historyIndex >= history.length - 1} title="Redo"><IconRedo /></button>
+                        <button onClick={undo} disabled={historyIndex <= 0} title="Undo (Ctrl+Z)"><IconUndo /></button>
+                        <button onClick={redo} disabled={historyIndex >= history.length - 1} title="Redo (Ctrl+Shift+Z)"><IconRedo /></button>
                     </div>
+                    <button className="btn-shortcuts" onClick={() => setIsShortcutsOpen(true)} title="Keyboard shortcuts (?)">?</button>
                     <div className="header-divider"></div>
-                    <button onClick={handleCopy} title="Copy Content"><IconCopy /></button>
-                    <button className="btn-primary" onClick={() => handleDownload('png')}>Download</button>
+                    <button
+                        className={`btn-toolbar sensitive-trigger ${isFramePanelOpen || frame.enabled ? 'active' : ''}`}
+                        onClick={() => { setIsFramePanelOpen(!isFramePanelOpen); setIsSensitivePanelOpen(false); }}
+                        title="Padding, background and browser window around the exported image"
+                    >
+                        <IconFrame />
+                        <span>Frame{frame.enabled ? ' (On)' : ''}</span>
+                    </button>
+                    {captureText && (
+                        <button
+                            className={`btn-toolbar sensitive-trigger ${isSensitivePanelOpen ? 'active' : ''}`}
+                            onClick={() => { if (isSensitivePanelOpen) { setIsSensitivePanelOpen(false); } else { setIsFramePanelOpen(false); findSensitive(); } }}
+                            disabled={isImageTurned}
+                            title={isImageTurned ? 'Not available on a rotated or flipped image' : 'Find emails, phone numbers, tokens and card numbers to blur'}
+                        >
+                            <IconShield />
+                            <span>Find Sensitive Data</span>
+                        </button>
+                    )}
+                    {snapshotPageStates().some(state => state.elements.some(el => el.type === 'blur')) && (
+                        <button className="btn-redact" onClick={() => setRedactionPrompt({ kind: 'apply' })} title="Burn blur regions into the image">
+                            <IconBlur />
+                            <span>Apply Redactions</span>
+                        </button>
+                    )}
+                    <button onClick={() => exportWithAudit('copy')} title="Copy Content"><IconCopy /></button>
+                    <button className="btn-primary" onClick={() => setIsExportOpen(true)}>Download</button>
                 </div>
             </header>
 
+            {captureNotice && (
+                <div className="capture-notice">
+                    <IconAlert />
+                    <span>{captureNotice}</span>
+                    <button onClick={() => setCaptureNotice(null)} title="Dismiss"><IconClose /></button>
+                </div>
+            )}
+
             <main className="editor-main">
                 <aside className="editor-left-toolbar">
                     <div className="center-toolbar">
                         {tools.map(t => (
-                            <button key={t.id} className={`tool-btn ${tool === t.id ? 'active' : ''}`} onClick={() => {
-                                if (t.id === 'image') {
-                                    triggerImageUpload();
-                                } else {
-                                    setTool(t.id);
-                                    loadToolSettings(t.id);
-                                }
-                            }} title={t.label}>
+                            <button key={t.id} className={`tool-btn ${tool === t.id ? 'active' : ''}`} onClick={() => selectTool(t.id)} title={`${t.label} (${t.shortcut})`}>
                                 <span className="icon">{t.icon}</span>
                                 <span className="btn-label">{t.label}</span>
                             </button>
                         ))}
                         <div className="v-divider"></div>
-                        {tool !== 'blur' && tool !== 'crop' && (
+                        {tool !== 'blur' && tool !== 'crop' && tool !== 'select' && (
                             <div className="color-tool">
                                 <input type="color" value={color} onChange={(e) => { setColor(e.target.value); setActivePresetId(null); }} className="color-input" />
                                 <div className="color-preview" style={{ backgroundColor: color }}></div>
@@ -1231,16 +2764,25 @@ function Editor() {
                                 <IconCheck />
                             </button>
                         )}
+                        {tool === 'blur' && (
+                            <>
+                                <button className={`side-tool-btn ${blurShape === 'rect' ? 'active' : ''}`} onClick={() => setBlurShape('rect')} title="Rectangle Blur"><IconSquare /></button>
+                                <button className={`side-tool-btn ${blurShape === 'ellipse' ? 'active' : ''}`} onClick={() => setBlurShape('ellipse')} title="Ellipse Blur"><IconCircle /></button>
+                                <button className={`side-tool-btn ${blurShape === 'freehand' ? 'active' : ''}`} onClick={() => setBlurShape('freehand')} title="Freehand Blur"><IconPencil /></button>
+                            </>
+                        )}
                     </div>
                     <input type="file" ref={fileInputRef} style={{ display: 'none' }} accept="image/*" onChange={handleImageFileChange} />
                 </aside>
                 <div className="canvas-area">
                     <div className="canvas-viewport" ref={canvasContainerRef}>
-                        <div className="canvas-stage-wrapper" style={{ minWidth: stageSize.width * zoom }}>
+                        <div className="canvas-stage-wrapper" style={{ minWidth: view.width * zoom }}>
                             <Stage
                                 key={image.src.substring(0, 100)} // Force re-mount if image source changes
-                                width={Math.ceil(stageSize.width * zoom)}
-                                height={Math.ceil(stageSize.height * zoom)}
+                                width={Math.ceil(view.width * zoom)}
+                                height={Math.ceil(view.height * zoom)}
+                                x={-view.x * zoom}
+                                y={-view.y * zoom}
                                 scaleX={zoom}
                                 scaleY={zoom}
                                 ref={stageRef}
@@ -1331,19 +2873,192 @@ function Editor() {
                                         </>
                                     )}
 
-                                    {cropRect && <Rect x={cropRect.width < 0 ? cropRect.x + cropRect.width : cropRect.x} y={cropRect.height < 0 ? cropRect.y + cropRect.height : cropRect.y} width={Math.abs(cropRect.width)} height={Math.abs(cropRect.height)} stroke="var(--brand-primary)" strokeWidth={2 / zoom} fill="rgba(99, 102, 241, 0.1)" dash={[5, 5]} />}
-                                    <Transformer ref={transformerRef} boundBoxFunc={(oldBox, newBox) => (newBox.width < 5 || newBox.height < 5) ? oldBox : newBox} />
+                                    {isSensitivePanelOpen && suggestions.map(s => (
+                                        <Rect
+                                            key={s.id}
+                                            x={s.x}
+                                            y={s.y}
+                                            width={s.width}
+                                            height={s.height}
+                                            stroke="#ef4444"
+                                            strokeWidth={(hoveredSuggestionId === s.id ? 3 : 1.5) / zoom}
+                                            dash={[6 / zoom, 3 / zoom]}
+                                            fill={hoveredSuggestionId === s.id ? 'rgba(239, 68, 68, 0.2)' : 'rgba(239, 68, 68, 0.08)'}
+                                            listening={false}
+                                            name="editor-overlay"
+                                        />
+                                    ))}
+                                    {marquee && <Rect name="editor-overlay" x={Math.min(marquee.x, marquee.x + marquee.width)} y={Math.min(marquee.y, marquee.y + marquee.height)} width={Math.abs(marquee.width)} height={Math.abs(marquee.height)} stroke="#a173fe" strokeWidth={1 / zoom} fill="rgba(161, 115, 254, 0.08)" dash={[4 / zoom, 4 / zoom]} listening={false} />}
+                                    {cropRect && (
+                                        <Rect
+                                            name="editor-overlay"
+                                            x={cropRect.width < 0 ? cropRect.x + cropRect.width : cropRect.x}
+                                            y={cropRect.height < 0 ? cropRect.y + cropRect.height : cropRect.y}
+                                            width={Math.abs(cropRect.width)}
+                                            height={Math.abs(cropRect.height)}
+                                            stroke="#6366f1"
+                                            strokeWidth={2 / zoom}
+                                            fill="rgba(99, 102, 241, 0.1)"
+                                            dash={[5, 5]}
+                                            draggable={!isCropping}
+                                            onDragEnd={(e) => {
+                                                // Keep the whole crop inside the image while moving it
+                                                const width = Math.abs(cropRect.width);
+                                                const height = Math.abs(cropRect.height);
+                                                const x = Math.min(Math.max(0, e.target.x()), stageSize.width - width);
+                                                const y = Math.min(Math.max(0, e.target.y()), stageSize.height - height);
+                                                e.target.position({ x, y });
+                                                setCropRect({ x: Math.round(x), y: Math.round(y), width, height });
+                                            }}
+                                        />
+                                    )}
+                                    <Transformer
+                                        ref={transformerRef}
+                                        name="editor-overlay"
+                                        onTransformEnd={handleTransformEnd}
+                                        rotateEnabled={!elements.some(el => el.type === 'blur' && selectedIds.includes(el.id))}
+                                        rotationSnaps={[0, 45, 90, 135, 180, 225, 270, 315]}
+                                        boundBoxFunc={(oldBox, newBox) => (newBox.width < 5 || newBox.height < 5) ? oldBox : newBox} />
                                 </Layer>
                             </Stage>
                         </div>
+                    </div>
 
-                        {cropRect && !isCropping && Math.abs(cropRect.width) > 5 && (
-                            <div className="crop-floating-actions" style={{ left: (cropRect.width < 0 ? cropRect.x + cropRect.width : cropRect.x) * zoom, top: (cropRect.y + (cropRect.height < 0 ? 0 : cropRect.height)) * zoom + 10 }}>
-                                <button onClick={applyCrop} className="apply-btn"><IconCheck /> Apply</button>
-                                <button onClick={cancelCrop} className="cancel-btn"><IconClose /> Cancel</button>
+                    {isFramePanelOpen && (
+                        <div className="sensitive-panel frame-panel">
+                            <div className="shortcuts-header">
+                                <span>Frame</span>
+                                <button onClick={() => setIsFramePanelOpen(false)} title="Close"><IconClose /></button>
                             </div>
-                        )}
-                    </div>
+                            <label className="frame-toggle">
+                                <input type="checkbox" checked={frame.enabled} onChange={(e) => updateFrame({ enabled: e.target.checked })} />
+                                <span>Add frame when exporting</span>
+                            </label>
+                            {framePreview && <img className="frame-preview" src={framePreview} alt="Export preview" />}
+                            <div className="prop-row">
+                                <label>Background</label>
+                                <div className="segmented-control">
+                                    <button className={frame.background === 'solid' ? 'active' : ''} onClick={() => updateFrame({ background: 'solid' })}>Solid</button>
+                                    <button className={frame.background === 'gradient' ? 'active' : ''} onClick={() => updateFrame({ background: 'gradient' })}>Gradient</button>
+                                </div>
+                            </div>
+                            <div className="frame-colors">
+                                {frame.background === 'solid' ? (
+                                    <input type="color" value={frame.color} onChange={(e) => updateFrame({ color: e.target.value })} title="Background color" />
+                                ) : (
+                                    <>
+                                        <input type="color" value={frame.gradientFrom} onChange={(e) => updateFrame({ gradientFrom: e.target.value })} title="Gradient start" />
+                                        <input type="color" value={frame.gradientTo} onChange={(e) => updateFrame({ gradientTo: e.target.value })} title="Gradient end" />
+                                    </>
+                                )}
+                            </div>
+                            <div className="prop-row"><label>Padding ({frame.padding}px)</label><input type="range" min="0" max="256" value={frame.padding} onChange={(e) => updateFrame({ padding: parseInt(e.target.value) })} /></div>
+                            <div className="prop-row"><label>Corner Radius ({frame.radius}px)</label><input type="range" min="0" max="48" value={frame.radius} onChange={(e) => updateFrame({ radius: parseInt(e.target.value) })} /></div>
+                            <div className="prop-row"><label>Shadow ({frame.shadow}px)</label><input type="range" min="0" max="80" value={frame.shadow} onChange={(e) => updateFrame({ shadow: parseInt(e.target.value) })} /></div>
+                            <label className="frame-toggle">
+                                <input type="checkbox" checked={frame.browserChrome} onChange={(e) => updateFrame({ browserChrome: e.target.checked })} />
+                                <span>Browser window with page title and URL</span>
+                            </label>
+                            <div className="prop-row">
+                                <label>Output Aspect</label>
+                                <div className="segmented-control">
+                                    {FRAME_ASPECTS.map(a => (
+                                        <button key={a.label} className={frame.aspect === a.ratio ? 'active' : ''} onClick={() => updateFrame({ aspect: a.ratio })}>{a.label}</button>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    {isSensitivePanelOpen && (
+                        <div className="sensitive-panel">
+                            <div className="shortcuts-header">
+                                <span>Sensitive Data</span>
+                                <button onClick={() => setIsSensitivePanelOpen(false)} title="Close"><IconClose /></button>
+                            </div>
+                            <p className="sensitive-hint">Detected locally from the page text at capture time. Accepted items become blur layers.</p>
+                            {suggestions.length > 0 ? (
+                                <>
+                                    <div className="sensitive-list">
+                                        {suggestions.map(s => (
+                                            <div
+                                                key={s.id}
+                                                className="sensitive-item"
+                                                onMouseEnter={() => setHoveredSuggestionId(s.id)}
+                                                onMouseLeave={() => setHoveredSuggestionId(null)}
+                                            >
+                                                <div className="sensitive-info">
+                                                    <span className="sensitive-kind">{SENSITIVE_LABELS[s.kind]}</span>
+                                                    {/* Only a hint of the value, so the list itself doesn't leak it */}
+                                                    <span className="sensitive-text">{s.text.slice(0, 3)}{'•'.repeat(Math.min(12, Math.max(3, s.text.length - 3)))}</span>
+                                                </div>
+                                                <button onClick={() => acceptSuggestions([s.id])} title="Blur this"><IconCheck /></button>
+                                                <button onClick={() => rejectSuggestions([s.id])} title="Ignore this"><IconClose /></button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <div className="redaction-actions">
+                                        <button className="btn-secondary" onClick={() => rejectSuggestions(suggestions.map(s => s.id))}>Ignore All</button>
+                                        <button className="btn-danger" onClick={() => acceptSuggestions(suggestions.map(s => s.id))}>Blur All ({suggestions.length})</button>
+                                    </div>
+                                </>
+                            ) : (
+                                <div className="dropdown-empty">No suggestions left</div>
+                            )}
+                            <label className="section-subtitle">Custom Patterns</label>
+                            <textarea
+                                className="sensitive-patterns"
+                                value={customPatterns}
+                                onChange={(e) => setCustomPatterns(e.target.value)}
+                                placeholder={'One regular expression per line, e.g.\nORD-\\d{6}'}
+                                rows={3}
+                                spellCheck={false}
+                            />
+                            <button className="btn-secondary" onClick={findSensitive}><IconRefresh /> Scan Again</button>
+                        </div>
+                    )}
+
+                    {tool === 'crop' && (
+                        <div className="crop-floating-actions crop-toolbar">
+                            <div className="segmented-control">
+                                {CROP_ASPECTS.map(a => (
+                                    <button key={a.label} className={cropAspect === a.ratio ? 'active' : ''} onClick={() => selectCropAspect(a.ratio)}>{a.label}</button>
+                                ))}
+                            </div>
+                            <div className="crop-size">
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={stageSize.width}
+                                    value={cropRect ? Math.round(Math.abs(cropRect.width)) : stageSize.width}
+                                    onChange={(e) => resizeCropRect(parseInt(e.target.value) || 1, cropRect ? Math.abs(cropRect.height) : stageSize.height)}
+                                    title="Width (px)"
+                                />
+                                <span>&times;</span>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={stageSize.height}
+                                    value={cropRect ? Math.round(Math.abs(cropRect.height)) : stageSize.height}
+                                    onChange={(e) => {
+                                        const height = parseInt(e.target.value) || 1;
+                                        resizeCropRect(cropAspect ? height * cropAspect : (cropRect ? Math.abs(cropRect.width) : stageSize.width), height);
+                                    }}
+                                    title="Height (px)"
+                                />
+                            </div>
+                            <div className="crop-turns">
+                                <button onClick={() => turnImage('rotate-ccw')} title="Rotate left 90°"><IconRotateCcw /></button>
+                                <button onClick={() => turnImage('rotate-cw')} title="Rotate right 90°"><IconRotateCw /></button>
+                                <button onClick={() => turnImage('rotate-180')} title="Rotate 180°">180°</button>
+                                <button onClick={() => turnImage('flip-h')} title="Flip horizontally"><IconFlipHorizontal /></button>
+                                <button onClick={() => turnImage('flip-v')} title="Flip vertically"><IconFlipVertical /></button>
+                            </div>
+                            <button className="btn-secondary" onClick={() => setCropRect({ x: 0, y: 0, width: stageSize.width, height: stageSize.height })} title="Select the whole image">Full Image</button>
+                            <button onClick={applyCrop} className="apply-btn" disabled={!cropRect || isCropping}><IconCheck /> Apply</button>
+                            <button onClick={cancelCrop} className="cancel-btn"><IconClose /> Cancel</button>
+                        </div>
+                    )}
 
                     <div className="fixed-controls">
                         <div className="zoom-widget">
@@ -1359,28 +3074,128 @@ function Editor() {
                 <aside className="editor-sidebar">
                     <div className="sidebar-section layers">
                         <div className="section-header"><IconLayers /><span>Layers</span><span className="badge">{elements.length}</span></div>
+                        {elements.length > 0 && (() => {
+                            const selectedGroupIds = Array.from(new Set(elements.filter(el => selectedIds.includes(el.id) && el.groupId).map(el => el.groupId as string)));
+                            return (
+                                <div className="layer-toolbar">
+                                    <button onClick={groupSelection} disabled={selectedIds.length < 2} title="Group selection (Ctrl+G)"><IconGroup /></button>
+                                    <button onClick={() => ungroup(selectedGroupIds)} disabled={!selectedGroupIds.length} title="Ungroup (Ctrl+Shift+G)"><IconUngroup /></button>
+                                    <div className="h-divider"></div>
+                                    <button onClick={() => moveSelectionToEdge('front')} disabled={!selectedIds.length} title="Bring to front (Ctrl+Shift+])"><IconBringToFront /></button>
+                                    <button onClick={() => moveSelectionToEdge('back')} disabled={!selectedIds.length} title="Send to back (Ctrl+Shift+[)"><IconSendToBack /></button>
+                                    <div className="h-divider"></div>
+                                    <button onClick={() => setElementsLocked(elements.map(el => el.id), true)} disabled={elements.every(el => el.locked)} title="Lock all"><IconLock /></button>
+                                    <button onClick={() => setElementsLocked(elements.map(el => el.id), false)} disabled={!elements.some(el => el.locked)} title="Unlock all"><IconUnlock /></button>
+                                </div>
+                            );
+                        })()}
                         <div className="section-content scrollable">
                             {elements.length === 0 ? <div className="empty-state">No layers</div> : (
-                                <div className="layer-stack">
-                                    {[...elements].reverse().map(el => (
-                                        <div key={el.id} className={`layer-card ${selectedId === el.id ? 'active' : ''}`} onClick={() => handleElementClick(el.id)}>
-                                            <span className="type-icon">{getElementIcon(el.type)}</span>
-                                            <span className="name">{el.name}</span>
-                                            <div className="actions">
-                                                <button onClick={(e) => { e.stopPropagation(); toggleVisibility(el.id); }}>{el.visible ? <IconEye /> : <IconEyeOff />}</button>
-                                                <button className="del" onClick={(e) => { e.stopPropagation(); deleteElement(el.id); }}><IconTrash /></button>
+                                <div className="layer-stack" onDragEnd={() => { draggedLayerRef.current = null; setLayerDropTarget(null); }}>
+                                    {buildLayerRows().map(row => {
+                                        const rowKey = row.kind === 'group' ? row.group.id : row.element.id;
+                                        const dropClass = layerDropTarget?.id === rowKey ? (layerDropTarget.above ? 'drop-above' : 'drop-below') : '';
+                                        const dragProps = {
+                                            draggable: true,
+                                            onDragStart: (e: React.DragEvent) => {
+                                                draggedLayerRef.current = { kind: row.kind, id: rowKey };
+                                                e.dataTransfer.effectAllowed = 'move';
+                                            },
+                                            onDragOver: (e: React.DragEvent) => {
+                                                if (!draggedLayerRef.current) return;
+                                                e.preventDefault();
+                                                const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+                                                const above = e.clientY < rect.top + rect.height / 2;
+                                                if (layerDropTarget?.id !== rowKey || layerDropTarget.above !== above) setLayerDropTarget({ id: rowKey, above });
+                                            },
+                                            onDrop: (e: React.DragEvent) => {
+                                                e.preventDefault();
+                                                handleLayerDrop({ kind: row.kind, id: rowKey }, layerDropTarget?.id === rowKey ? layerDropTarget.above : true);
+                                            },
+                                        };
+
+                                        if (row.kind === 'group') {
+                                            const { group, members } = row;
+                                            const memberIds = members.map(m => m.id);
+                                            const allSelected = memberIds.every(id => selectedIds.includes(id));
+                                            return (
+                                                <div key={group.id} {...dragProps} className={`layer-card layer-group ${allSelected ? 'active' : ''} ${dropClass}`} onClick={() => { if (!group.locked && group.visible) setSelectedIds(memberIds); }}>
+                                                    <button className="collapse-btn" onClick={(e) => { e.stopPropagation(); updateGroup(group.id, { collapsed: !group.collapsed }); }} title={group.collapsed ? 'Expand' : 'Collapse'}>
+                                                        {group.collapsed ? <IconChevronRight /> : <IconChevronDown />}
+                                                    </button>
+                                                    <span className="type-icon"><IconFolder /></span>
+                                                    {renamingGroupId === group.id ? (
+                                                        <input
+                                                            className="name-input"
+                                                            defaultValue={group.name}
+                                                            autoFocus
+                                                            onClick={(e) => e.stopPropagation()}
+                                                            onBlur={(e) => { updateGroup(group.id, { name: e.target.value.trim() || group.name }); setRenamingGroupId(null); }}
+                                                            onKeyDown={(e) => { if (e.key === 'Enter' || e.key === 'Escape') (e.target as HTMLInputElement).blur(); }}
+                                                        />
+                                                    ) : (
+                                                        <span className="name" onDoubleClick={() => setRenamingGroupId(group.id)} title="Double-click to rename">{group.name} <span className="count">({members.length})</span></span>
+                                                    )}
+                                                    <div className={`actions ${group.locked || !group.visible ? 'pinned' : ''}`}>
+                                                        <button onClick={(e) => { e.stopPropagation(); updateGroup(group.id, { locked: !group.locked }); }} title={group.locked ? 'Unlock group' : 'Lock group'}>{group.locked ? <IconLock /> : <IconUnlock />}</button>
+                                                        <button onClick={(e) => { e.stopPropagation(); updateGroup(group.id, { visible: !group.visible }); }} title={group.visible ? 'Hide group' : 'Show group'}>{group.visible ? <IconEye /> : <IconEyeOff />}</button>
+                                                        <button onClick={(e) => { e.stopPropagation(); ungroup([group.id]); }} title="Ungroup"><IconUngroup /></button>
+                                                    </div>
+                                                </div>
+                                            );
+                                        }
+
+                                        const el = row.element;
+                                        return (
+                                            <div key={el.id} {...dragProps} className={`layer-card ${row.inGroup ? 'in-group' : ''} ${selectedIds.includes(el.id) ? 'active' : ''} ${dropClass}`} onClick={(e) => handleElementClick(el.id, e.shiftKey || e.ctrlKey || e.metaKey)}>
+                                                <span className="type-icon">{getElementIcon(el.type)}</span>
+                                                <span className="name">{el.type === 'step' && isElementShown(el) ? `${el.name} ${stepNumberOf(el)}` : el.name}</span>
+                                                <div className={`actions ${el.locked ? 'pinned' : ''}`}>
+                                                    <button onClick={(e) => { e.stopPropagation(); setElementsLocked([el.id], !el.locked); }} title={el.locked ? 'Unlock' : 'Lock'}>{el.locked ? <IconLock /> : <IconUnlock />}</button>
+                                                    <button onClick={(e) => { e.stopPropagation(); toggleVisibility(el.id); }}>{el.visible ? <IconEye /> : <IconEyeOff />}</button>
+                                                    <button className="del" onClick={(e) => { e.stopPropagation(); deleteElement(el.id); }}><IconTrash /></button>
+                                                </div>
                                             </div>
-                                        </div>
-                                    ))}
+                                        );
+                                    })}
                                 </div>
                             )}
                         </div>
                     </div>
 
-                    <div className="sidebar-section properties" key={selectedId || 'none'}>
+                    <div className="sidebar-section properties" key={selectedIds.length > 1 ? 'multiple' : selectedId || 'none'}>
                         <div className="section-header"><IconSettings /><span>Properties</span></div>
                         <div className="section-content scrollable">
-                            {selectedId ? (() => {
+                            {selectedIds.length > 1 ? (() => {
+                                const selection = elements.filter(e => selectedIds.includes(e.id));
+                                const first = selection[0];
+                                if (!first) return null;
+                                const stroked = selection.filter(e => ['pencil', 'line', 'arrow', 'rectangle', 'circle'].includes(e.type));
+                                return (
+                                    <div className="prop-list">
+                                        <div className="multi-select-summary">{selection.length} elements selected</div>
+                                        {selection.some(e => e.type !== 'blur' && e.type !== 'image') && (
+                                            <div className="prop-row"><label>Color</label><div className="color-pick-field"><input type="color" value={first.color} onChange={(e) => updateElementsProperty(selection.filter(el => el.type !== 'blur' && el.type !== 'image').map(el => el.id), { color: e.target.value })} /><span className="hex">{(first.color || '#000').toUpperCase()}</span></div></div>
+                                        )}
+                                        <div className="prop-row"><label>Opacity ({Math.round((first.opacity ?? 1) * 100)}%)</label><input type="range" min="0" max="100" value={(first.opacity ?? 1) * 100} onChange={(e) => updateElementsProperty(selectedIds, { opacity: parseInt(e.target.value) / 100 })} /></div>
+                                        {stroked.length > 0 && (
+                                            <div className="prop-row">
+                                                <label>Stroke Size ({stroked[0].strokeWidth}px)</label>
+                                                <input
+                                                    type="range"
+                                                    min="1"
+                                                    max="50"
+                                                    value={stroked[0].strokeWidth}
+                                                    onChange={(e) => updateElementsProperty(stroked.map(el => el.id), { strokeWidth: parseInt(e.target.value) })}
+                                                />
+                                            </div>
+                                        )}
+                                        <div className="sidebar-divider"></div>
+                                        <button className="btn-secondary" onClick={() => setElementsVisibility(selectedIds, false)}><IconEyeOff /> Hide Elements</button>
+                                        <button className="btn-danger" onClick={() => deleteElements(selectedIds)}><IconTrash /> Delete Elements</button>
+                                    </div>
+                                );
+                            })() : selectedId ? (() => {
                                 const el = elements.find(e => e.id === selectedId);
                                 if (!el) return null;
                                 return (
@@ -1392,6 +3207,19 @@ function Editor() {
 
                                         <div className="prop-row"><label>Opacity ({Math.round((el.opacity ?? 1) * 100)}%)</label><input type="range" min="0" max="100" value={(el.opacity ?? 1) * 100} onChange={(e) => updateElementProperty(el.id, { opacity: parseInt(e.target.value) / 100 })} /></div>
 
+                                        {el.type !== 'blur' && (
+                                            <div className="prop-row">
+                                                <label>Rotation (°)</label>
+                                                <input
+                                                    type="number"
+                                                    min={-360}
+                                                    max={360}
+                                                    value={Math.round(el.rotation || 0)}
+                                                    onChange={(e) => updateElementProperty(el.id, { rotation: (parseInt(e.target.value) || 0) % 360 })}
+                                                />
+                                            </div>
+                                        )}
+
                                         {['pencil', 'line', 'arrow', 'rectangle', 'circle'].includes(el.type) && (
                                             <div className="prop-row">
                                                 <label>Stroke Size ({el.strokeWidth}px)</label>
@@ -1405,6 +3233,108 @@ function Editor() {
                                             </div>
                                         )}
 
+                                        {el.type === 'blur' && (() => {
+                                            const mode = el.blurMode || 'pixelate';
+                                            const strength = el.blurStrength ?? DEFAULT_BLUR_STRENGTH[mode];
+                                            // New blur regions start with the last mode and strength picked here
+                                            const updateBlur = (updates: Partial<DrawingElement>) => {
+                                                const settings = toolSettingsRef.current.blur;
+                                                toolSettingsRef.current.blur = {
+                                                    ...settings,
+                                                    blurMode: updates.blurMode ?? settings.blurMode,
+                                                    blurStrength: updates.blurStrength ?? settings.blurStrength,
+                                                };
+                                                updateElementProperty(el.id, updates);
+                                            };
+                                            return (
+                                                <>
+                                                    <div className="prop-row">
+                                                        <label>Mode</label>
+                                                        <div className="segmented-control">
+                                                            <button className={mode === 'pixelate' ? 'active' : ''} onClick={() => updateBlur({ blurMode: 'pixelate', blurStrength: DEFAULT_BLUR_STRENGTH.pixelate })}>Pixelate</button>
+                                                            <button className={mode === 'gaussian' ? 'active' : ''} onClick={() => updateBlur({ blurMode: 'gaussian', blurStrength: DEFAULT_BLUR_STRENGTH.gaussian })}>Blur</button>
+                                                            <button className={mode === 'solid' ? 'active' : ''} onClick={() => updateBlur({ blurMode: 'solid' })}>Solid</button>
+                                                        </div>
+                                                    </div>
+                                                    {mode !== 'solid' && (
+                                                        <div className="prop-row">
+                                                            <label>{mode === 'pixelate' ? `Block Size (${strength}px)` : `Radius (${strength}px)`}</label>
+                                                            <input
+                                                                type="range"
+                                                                min={mode === 'pixelate' ? 4 : 2}
+                                                                max={64}
+                                                                value={strength}
+                                                                onChange={(e) => updateBlur({ blurStrength: parseInt(e.target.value) })}
+                                                            />
+                                                        </div>
+                                                    )}
+                                                    {el.blurShape !== 'freehand' && (
+                                                        <div className="prop-row">
+                                                            <label>Shape</label>
+                                                            <div className="segmented-control">
+                                                                <button className={(el.blurShape || 'rect') === 'rect' ? 'active' : ''} onClick={() => updateElementProperty(el.id, { blurShape: 'rect' })}>Rectangle</button>
+                                                                <button className={el.blurShape === 'ellipse' ? 'active' : ''} onClick={() => updateElementProperty(el.id, { blurShape: 'ellipse' })}>Ellipse</button>
+                                                            </div>
+                                                        </div>
+                                                    )}
+                                                </>
+                                            );
+                                        })()}
+
+                                        {el.type === 'step' && (
+                                            <>
+                                                <div className="prop-row">
+                                                    <label>Size ({el.width || 48}px)</label>
+                                                    <input
+                                                        type="range"
+                                                        min="16"
+                                                        max="160"
+                                                        value={el.width || 48}
+                                                        onChange={(e) => {
+                                                            const width = parseInt(e.target.value);
+                                                            toolSettingsRef.current.step = { ...toolSettingsRef.current.step, width };
+                                                            updateElementProperty(el.id, { width });
+                                                        }}
+                                                    />
+                                                </div>
+                                                <div className="prop-row">
+                                                    <label>Shape</label>
+                                                    <div className="segmented-control">
+                                                        {(['circle', 'rounded', 'square'] as const).map(shape => (
+                                                            <button
+                                                                key={shape}
+                                                                className={(el.stepShape || 'circle') === shape ? 'active' : ''}
+                                                                onClick={() => {
+                                                                    toolSettingsRef.current.step = { ...toolSettingsRef.current.step, stepShape: shape };
+                                                                    updateElementProperty(el.id, { stepShape: shape });
+                                                                }}
+                                                            >
+                                                                {shape.charAt(0).toUpperCase() + shape.slice(1)}
+                                                            </button>
+                                                        ))}
+                                                    </div>
+                                                </div>
+                                                <div className="prop-row">
+                                                    <label>Leader Line</label>
+                                                    <div className="segmented-control">
+                                                        <button className={!el.leader ? 'active' : ''} onClick={() => updateElementProperty(el.id, { leader: false })}>Off</button>
+                                                        <button
+                                                            className={el.leader ? 'active' : ''}
+                                                            onClick={() => {
+                                                                // Without a dragged target, point down-right of the badge
+                                                                const [, , dx = 0, dy = 0] = el.points || [];
+                                                                const size = el.width || 48;
+                                                                const points = Math.hypot(dx, dy) > size * 0.75 ? el.points : [0, 0, size * 2, size * 2];
+                                                                updateElementProperty(el.id, { leader: true, points });
+                                                            }}
+                                                        >
+                                                            On
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            </>
+                                        )}
+
                                         {el.type === 'text' && (
                                             <>
                                                 <div className="sidebar-divider"></div>
@@ -1555,6 +3485,7 @@ function Editor() {
                                         )}
 
                                         <div className="sidebar-divider"></div>
+                                        <button className="btn-secondary" onClick={() => setElementsLocked([el.id], !el.locked)}>{el.locked ? <><IconUnlock /> Unlock Element</> : <><IconLock /> Lock Element</>}</button>
                                         <button className="btn-danger" onClick={() => deleteElement(el.id)}><IconTrash /> Delete Element</button>
                                     </div>
                                 );
@@ -1564,16 +3495,140 @@ function Editor() {
                 </aside>
             </main>
 
-            <div className="toast-container">
-                {toasts.map(t => (
-                    <div key={t.id} className={`toast toast-${t.type}`}>
-                        {t.type === 'success' && <IconCheck />}
-                        {t.type === 'error' && <IconAlert />}
-                        {t.type === 'info' && <IconBookmark />}
-                        <span>{t.message}</span>
+            {captureSetName && pages.length > 1 && (
+                <div className="filmstrip">
+                    {pages.map((p, i) => (
+                        <button
+                            key={i}
+                            className={`filmstrip-item ${i === activePage ? 'active' : ''}`}
+                            onClick={() => switchPage(i)}
+                            title={p.label}
+                        >
+                            <img src={p.src} alt={p.label} />
+                            <span>{i + 1}. {p.label}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {isShortcutsOpen && (
+                <div className="shortcuts-overlay" onClick={() => setIsShortcutsOpen(false)}>
+                    <div className="shortcuts-dialog" onClick={(e) => e.stopPropagation()}>
+                        <div className="shortcuts-header">
+                            <span>Keyboard Shortcuts</span>
+                            <button onClick={() => setIsShortcutsOpen(false)} title="Close"><IconClose /></button>
+                        </div>
+                        <div className="shortcuts-columns">
+                            <div className="shortcuts-group">
+                                <label className="section-subtitle">Tools</label>
+                                {tools.map(t => (
+                                    <div key={t.id} className="shortcut-row"><span>{t.label}</span><kbd>{t.shortcut}</kbd></div>
+                                ))}
+                            </div>
+                            <div className="shortcuts-group">
+                                <label className="section-subtitle">Editing</label>
+                                {SHORTCUTS.map(s => (
+                                    <div key={s.keys} className="shortcut-row"><span>{s.action}</span><kbd>{s.keys}</kbd></div>
+                                ))}
+                            </div>
+                        </div>
                     </div>
-                ))}
-            </div>
+                </div>
+            )}
+
+            {isExportOpen && (() => {
+                const { format, quality, scale, content } = exportSettings;
+                const region = content === 'image' || !crop || tool === 'crop' ? view : crop;
+                return (
+                    <div className="shortcuts-overlay" onClick={() => setIsExportOpen(false)}>
+                        <div className="shortcuts-dialog export-dialog" onClick={(e) => e.stopPropagation()}>
+                            <div className="shortcuts-header">
+                                <span>Export</span>
+                                <button onClick={() => setIsExportOpen(false)} title="Close"><IconClose /></button>
+                            </div>
+                            <div className="prop-row">
+                                <label>Format</label>
+                                <div className="segmented-control">
+                                    {(['png', 'jpeg', 'webp'] as ExportFormat[]).map(f => (
+                                        <button key={f} className={format === f ? 'active' : ''} onClick={() => updateExportSettings({ format: f })}>{f === 'jpeg' ? 'JPEG' : f.toUpperCase()}</button>
+                                    ))}
+                                </div>
+                            </div>
+                            {format !== 'png' && (
+                                <div className="prop-row">
+                                    <label>Quality ({Math.round(quality * 100)}%)</label>
+                                    <input type="range" min="10" max="100" value={Math.round(quality * 100)} onChange={(e) => updateExportSettings({ quality: parseInt(e.target.value) / 100 })} />
+                                </div>
+                            )}
+                            <div className="prop-row">
+                                <label>Scale ({Math.round(region.width * scale)} &times; {Math.round(region.height * scale)}px{content === 'selection' ? ' max' : ''})</label>
+                                <div className="segmented-control">
+                                    {EXPORT_SCALES.map(s => (
+                                        <button key={s} className={scale === s ? 'active' : ''} onClick={() => updateExportSettings({ scale: s })}>{s}&times;</button>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="prop-row">
+                                <label>Content</label>
+                                <div className="segmented-control">
+                                    <button className={content === 'all' ? 'active' : ''} onClick={() => updateExportSettings({ content: 'all' })}>Everything</button>
+                                    <button className={content === 'selection' ? 'active' : ''} onClick={() => updateExportSettings({ content: 'selection' })} disabled={!selectedIds.length} title={selectedIds.length ? 'Only the area of the selected elements' : 'Select elements first'}>Selection</button>
+                                    <button className={content === 'image' ? 'active' : ''} onClick={() => updateExportSettings({ content: 'image' })} title="Only the image and its blur regions">No Annotations</button>
+                                </div>
+                            </div>
+                            <div className="prop-row">
+                                <label>File Name</label>
+                                <input type="text" value={exportSettings.filename} onChange={(e) => setExportSettings({ ...exportSettings, filename: e.target.value })} onBlur={() => updateExportSettings({})} spellCheck={false} />
+                                <span className="export-hint">{FILENAME_TOKENS.join(' ')} &rarr; {exportFilename()}</span>
+                            </div>
+                            {content === 'selection' && !selectedIds.length && (
+                                <span className="export-hint">Nothing is selected, so the whole image will be exported.</span>
+                            )}
+                            <div className="redaction-actions">
+                                <button className="btn-secondary" onClick={() => setIsExportOpen(false)}>Cancel</button>
+                                <button className="btn-secondary" onClick={() => exportWithAudit('copy')}><IconCopy /> Copy</button>
+                                <button className="btn-primary-solid" onClick={() => exportWithAudit('download')}><IconDownload /> Download</button>
+                            </div>
+                        </div>
+                    </div>
+                );
+            })()}
+
+            {redactionPrompt && (
+                <div className="shortcuts-overlay" onClick={() => setRedactionPrompt(null)}>
+                    <div className="shortcuts-dialog redaction-dialog" onClick={(e) => e.stopPropagation()}>
+                        <div className="shortcuts-header">
+                            <span>{redactionPrompt.kind === 'apply' ? 'Apply Redactions' : 'Redactions Not Visible'}</span>
+                            <button onClick={() => setRedactionPrompt(null)} title="Close"><IconClose /></button>
+                        </div>
+                        {redactionPrompt.kind === 'apply' ? (
+                            <p>
+                                Every blur region, including hidden ones{pages.length > 1 ? ' and those on the other images of this capture' : ''}, will be
+                                burned into the pixels and the original capture will be removed from storage. This can't be undone.
+                            </p>
+                        ) : (
+                            <p>
+                                {redactionPrompt.ids.length} redaction layer(s) are hidden, mostly transparent or too small to
+                                cover anything, so the content underneath may be exported in clear. Showing them makes them
+                                visible and opaque; resize any that are too small.
+                            </p>
+                        )}
+                        <div className="redaction-actions">
+                            <button className="btn-secondary" onClick={() => setRedactionPrompt(null)}>Cancel</button>
+                            {redactionPrompt.kind === 'apply' ? (
+                                <button className="btn-danger" onClick={() => { setRedactionPrompt(null); applyRedactions(); }}>Apply Redactions</button>
+                            ) : (
+                                <>
+                                    <button className="btn-secondary" onClick={() => { setRedactionPrompt(null); runExport(redactionPrompt.action); }}>Export Anyway</button>
+                                    <button className="btn-danger" onClick={() => fixRedactionsAndExport(redactionPrompt.ids, redactionPrompt.action)}>Show Redactions &amp; Export</button>
+                                </>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {toastList}
 
             {textInput.visible && (
                 <div
@@ -1587,7 +3642,7 @@ function Editor() {
                             const sw = viewport.querySelector('.canvas-stage-wrapper');
                             if (!sw) return 0;
                             const r = sw.getBoundingClientRect();
-                            return r.left + (textInput.x * zoom) + popupCorrection.x;
+                            return r.left + ((textInput.x - view.x) * zoom) + popupCorrection.x;
                         })(),
                         top: (() => {
                             const viewport = canvasContainerRef.current;
@@ -1595,7 +3650,7 @@ function Editor() {
                             const sw = viewport.querySelector('.canvas-stage-wrapper');
                             if (!sw) return 0;
                             const r = sw.getBoundingClientRect();
-                            return r.top + (textInput.y * zoom) + popupCorrection.y;
+                            return r.top + ((textInput.y - view.y) * zoom) + popupCorrection.y;
                         })(),
                         transform: 'translate(-50%, -100%)',
                         zIndex: 9999,
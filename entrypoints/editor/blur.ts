@@ -0,0 +1,131 @@
+import type { DrawingElement } from './Editor';
+
+export type BlurMode = 'pixelate' | 'gaussian' | 'solid';
+export type BlurShape = 'rect' | 'ellipse' | 'freehand';
+
+// Area of the base image to obscure, in image pixels
+export interface BlurRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    mode?: BlurMode;
+    // Block size for 'pixelate', radius for 'gaussian'; unused by 'solid'
+    strength?: number;
+    shape?: BlurShape;
+    // Freehand outline as [x1, y1, x2, y2, ...] relative to (x, y)
+    points?: number[];
+}
+
+export const DEFAULT_BLUR_STRENGTH: Record<BlurMode, number> = {
+    pixelate: 12,
+    gaussian: 16,
+    solid: 0,
+};
+
+function traceShape(ctx: CanvasRenderingContext2D, region: BlurRegion, width: number, height: number) {
+    ctx.beginPath();
+    if (region.shape === 'ellipse') {
+        ctx.ellipse(width / 2, height / 2, width / 2, height / 2, 0, 0, Math.PI * 2);
+    } else if (region.shape === 'freehand' && region.points && region.points.length >= 6) {
+        ctx.moveTo(region.points[0], region.points[1]);
+        for (let i = 2; i < region.points.length; i += 2) {
+            ctx.lineTo(region.points[i], region.points[i + 1]);
+        }
+        ctx.closePath();
+    } else {
+        ctx.rect(0, 0, width, height);
+    }
+}
+
+// Draws the obscured pixels of a region, transparent outside its shape
+export function renderBlurRegion(image: CanvasImageSource, region: BlurRegion): HTMLCanvasElement {
+    const width = Math.max(1, Math.round(region.width));
+    const height = Math.max(1, Math.round(region.height));
+    const mode = region.mode || 'pixelate';
+    const strength = region.strength ?? DEFAULT_BLUR_STRENGTH[mode];
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return canvas;
+
+    traceShape(ctx, region, width, height);
+    ctx.clip();
+
+    if (mode === 'solid') {
+        ctx.fillStyle = '#000000';
+        ctx.fillRect(0, 0, width, height);
+    } else if (mode === 'gaussian') {
+        // Sample past the edges so the blur doesn't fade out towards the border
+        const margin = Math.ceil(strength * 2);
+        ctx.filter = `blur(${strength}px)`;
+        ctx.drawImage(
+            image,
+            region.x - margin, region.y - margin, width + margin * 2, height + margin * 2,
+            -margin, -margin, width + margin * 2, height + margin * 2
+        );
+        ctx.filter = 'none';
+    } else {
+        const blockSize = Math.max(2, strength);
+        const smallWidth = Math.max(1, Math.ceil(width / blockSize));
+        const smallHeight = Math.max(1, Math.ceil(height / blockSize));
+
+        const smallCanvas = document.createElement('canvas');
+        smallCanvas.width = smallWidth;
+        smallCanvas.height = smallHeight;
+        const smallCtx = smallCanvas.getContext('2d');
+        if (!smallCtx) return canvas;
+        smallCtx.drawImage(image, region.x, region.y, width, height, 0, 0, smallWidth, smallHeight);
+
+        ctx.imageSmoothingEnabled = false;
+        ctx.drawImage(smallCanvas, 0, 0, smallWidth, smallHeight, 0, 0, width, height);
+    }
+
+    return canvas;
+}
+
+// Region a blur element covers. A blur being drawn may still extend up or left of its start point
+export function blurRegionOf(el: DrawingElement): BlurRegion {
+    const base = { mode: el.blurMode, strength: el.blurStrength, shape: el.blurShape };
+    const pts = el.points || [];
+
+    if (el.blurShape === 'freehand') {
+        const xs = pts.filter((_, i) => i % 2 === 0);
+        const ys = pts.filter((_, i) => i % 2 === 1);
+        const minX = Math.min(0, ...xs);
+        const minY = Math.min(0, ...ys);
+        return {
+            ...base,
+            x: el.x + minX,
+            y: el.y + minY,
+            width: Math.max(0, ...xs) - minX,
+            height: Math.max(0, ...ys) - minY,
+            points: pts.map((p, i) => i % 2 === 0 ? p - minX : p - minY),
+        };
+    }
+
+    if (pts.length === 4) {
+        const [, , dx, dy] = pts;
+        return { ...base, x: el.x + Math.min(0, dx), y: el.y + Math.min(0, dy), width: Math.abs(dx), height: Math.abs(dy) };
+    }
+
+    return { ...base, x: el.x, y: el.y, width: el.width || 0, height: el.height || 0 };
+}
+
+// Copy of the image with the regions drawn into its pixels
+export function burnInBlurRegions(base: HTMLImageElement | ImageBitmap, regions: BlurRegion[]): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = base.width;
+    canvas.height = base.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+    ctx.drawImage(base, 0, 0);
+    regions.forEach(region => {
+        if (region.width > 0 && region.height > 0) {
+            ctx.drawImage(renderBlurRegion(base, region), region.x, region.y, region.width, region.height);
+        }
+    });
+    return canvas;
+}
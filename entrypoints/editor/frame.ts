@@ -0,0 +1,161 @@
+export type FrameBackground = 'solid' | 'gradient';
+
+// Decoration drawn around the exported screenshot; the document itself is never changed
+export interface FrameSettings {
+    enabled: boolean;
+    padding: number;
+    background: FrameBackground;
+    color: string;
+    // Gradient runs diagonally from the top-left to the bottom-right corner
+    gradientFrom: string;
+    gradientTo: string;
+    radius: number;
+    shadow: number;
+    browserChrome: boolean;
+    // Output width / height, or null to just wrap the screenshot
+    aspect: number | null;
+}
+
+export const DEFAULT_FRAME: FrameSettings = {
+    enabled: false,
+    padding: 64,
+    background: 'gradient',
+    color: '#e2e8f0',
+    gradientFrom: '#a173fe',
+    gradientTo: '#38bdf8',
+    radius: 12,
+    shadow: 24,
+    browserChrome: false,
+    aspect: null,
+};
+
+export const FRAME_ASPECTS: { label: string; ratio: number | null }[] = [
+    { label: 'Auto', ratio: null },
+    { label: '16:9', ratio: 16 / 9 },
+    { label: '4:3', ratio: 4 / 3 },
+    { label: '1:1', ratio: 1 },
+    { label: '9:16', ratio: 9 / 16 },
+];
+
+// Page shown in the fake browser title bar
+export interface FramePage {
+    url?: string;
+    title?: string;
+}
+
+function roundedRect(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number) {
+    const r = Math.min(radius, width / 2, height / 2);
+    ctx.beginPath();
+    ctx.moveTo(x + r, y);
+    ctx.arcTo(x + width, y, x + width, y + height, r);
+    ctx.arcTo(x + width, y + height, x, y + height, r);
+    ctx.arcTo(x, y + height, x, y, r);
+    ctx.arcTo(x, y, x + width, y, r);
+    ctx.closePath();
+}
+
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+    if (ctx.measureText(text).width <= maxWidth) return text;
+    let fitted = text;
+    while (fitted.length > 1 && ctx.measureText(`${fitted}…`).width > maxWidth) fitted = fitted.slice(0, -1);
+    return `${fitted}…`;
+}
+
+function drawBrowserChrome(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, page: FramePage) {
+    const scale = height / 40;
+    ctx.fillStyle = '#f1f5f9';
+    ctx.fillRect(x, y, width, height);
+    ctx.fillStyle = '#e2e8f0';
+    ctx.fillRect(x, y + height - scale, width, scale);
+
+    ['#ff5f57', '#febc2e', '#28c840'].forEach((color, i) => {
+        ctx.beginPath();
+        ctx.arc(x + (18 + i * 18) * scale, y + height / 2, 6 * scale, 0, Math.PI * 2);
+        ctx.fillStyle = color;
+        ctx.fill();
+    });
+
+    ctx.textBaseline = 'middle';
+    const titleX = x + 82 * scale;
+    const titleWidth = Math.min(220 * scale, width * 0.25);
+    ctx.font = `600 ${12 * scale}px Inter, system-ui, sans-serif`;
+    ctx.fillStyle = '#334155';
+    ctx.fillText(fitText(ctx, page.title || '', titleWidth), titleX, y + height / 2);
+
+    // Address bar fills the rest of the title bar
+    const barX = titleX + titleWidth + 12 * scale;
+    const barWidth = x + width - barX - 16 * scale;
+    if (barWidth > 40 * scale) {
+        roundedRect(ctx, barX, y + 8 * scale, barWidth, height - 16 * scale, 12 * scale);
+        ctx.fillStyle = '#ffffff';
+        ctx.fill();
+        ctx.font = `${12 * scale}px Inter, system-ui, sans-serif`;
+        ctx.fillStyle = '#64748b';
+        ctx.fillText(fitText(ctx, page.url || '', barWidth - 24 * scale), barX + 12 * scale, y + height / 2);
+    }
+}
+
+// Draws the screenshot on its frame: background, padding, shadow, rounded corners and optional browser chrome.
+// `exportScale` is how many output pixels the shot has per image pixel; every size of the frame is
+// multiplied by it, so an export at 0.5× or 2× looks exactly like the one at 1×
+export function renderFrame(
+    shot: CanvasImageSource & { width: number; height: number },
+    settings: FrameSettings,
+    page: FramePage = {},
+    exportScale = 1,
+): HTMLCanvasElement {
+    // Padding, corners and shadow are set in image pixels; the browser chrome follows the image's width
+    const padding = settings.padding * exportScale;
+    const chromeScale = Math.max(0.5, shot.width / exportScale / 1280) * exportScale;
+    const chromeHeight = settings.browserChrome ? Math.round(40 * chromeScale) : 0;
+    const windowWidth = shot.width;
+    const windowHeight = shot.height + chromeHeight;
+
+    let width = windowWidth + padding * 2;
+    let height = windowHeight + padding * 2;
+    if (settings.aspect) {
+        if (width / height < settings.aspect) width = Math.round(height * settings.aspect);
+        else height = Math.round(width / settings.aspect);
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return canvas;
+
+    if (settings.background === 'gradient') {
+        const gradient = ctx.createLinearGradient(0, 0, width, height);
+        gradient.addColorStop(0, settings.gradientFrom);
+        gradient.addColorStop(1, settings.gradientTo);
+        ctx.fillStyle = gradient;
+    } else {
+        ctx.fillStyle = settings.color;
+    }
+    ctx.fillRect(0, 0, width, height);
+
+    const x = Math.round((width - windowWidth) / 2);
+    const y = Math.round((height - windowHeight) / 2);
+    const radius = settings.radius * exportScale;
+    const shadow = settings.shadow * exportScale;
+
+    if (shadow > 0) {
+        ctx.save();
+        ctx.shadowColor = 'rgba(0, 0, 0, 0.35)';
+        ctx.shadowBlur = shadow;
+        ctx.shadowOffsetY = shadow / 3;
+        roundedRect(ctx, x, y, windowWidth, windowHeight, radius);
+        ctx.fillStyle = '#ffffff';
+        ctx.fill();
+        ctx.restore();
+    }
+
+    ctx.save();
+    roundedRect(ctx, x, y, windowWidth, windowHeight, radius);
+    ctx.clip();
+    if (chromeHeight) drawBrowserChrome(ctx, x, y, windowWidth, chromeHeight, page);
+    ctx.drawImage(shot, x, y + chromeHeight, shot.width, shot.height);
+    ctx.restore();
+
+    return canvas;
+}
@@ -0,0 +1,224 @@
+import type { CropRect, DrawingElement, LayerGroup } from './Editor';
+
+// Marks the JSON as one of our projects, so any other .json file is rejected up front
+const PROJECT_FORMAT = 'screenshot-editor-project';
+
+// Bump together with a new MIGRATIONS entry whenever the saved shape changes
+export const PROJECT_VERSION = 2;
+
+export const PROJECT_EXTENSION = '.sep.json';
+
+// One image of the project with its annotations
+export interface ProjectPage {
+    // Base image as a data URL, after any burnt-in redactions, rotations and flips
+    image: string;
+    label: string;
+    url?: string;
+    title?: string;
+    elements: DrawingElement[];
+    crop: CropRect | null;
+}
+
+// Editable screenshot: the images, every annotation and where the capture came from
+export interface ProjectFile {
+    format: typeof PROJECT_FORMAT;
+    version: number;
+    savedAt: number;
+    // Capture set name, for batch captures
+    name?: string;
+    // Capture mode ('visible', 'fullpage', ..., or 'batch')
+    mode?: string;
+    groups: LayerGroup[];
+    pages: ProjectPage[];
+    activePage: number;
+}
+
+// On disk every image (page bases and embedded image elements) is kept once in `images` and
+// referenced by its index, so duplicated image annotations don't repeat their data
+interface StoredElement extends Omit<DrawingElement, 'imageSrc'> {
+    image?: number;
+}
+
+interface StoredPage extends Omit<ProjectPage, 'image' | 'elements'> {
+    image: number;
+    elements: StoredElement[];
+}
+
+interface StoredProject extends Omit<ProjectFile, 'pages'> {
+    images: string[];
+    pages: StoredPage[];
+}
+
+// A file as read from disk: its version is known, every other field is still unchecked
+interface UncheckedFields {
+    [field: string]: unknown;
+}
+
+interface SavedV1 extends UncheckedFields {
+    version: 1;
+}
+
+interface SavedV2 extends UncheckedFields {
+    version: 2;
+}
+
+type SavedProject = SavedV1 | SavedV2;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const records = (value: unknown) => (Array.isArray(value) ? value : []).filter(isRecord);
+
+// Upgrades a project saved with version N to version N + 1. Files are untrusted, so a step only
+// reshapes them; the fields are checked once the project is at the current version
+const MIGRATIONS = {
+    // Version 1 kept each image inline, in its page or image element
+    1: (project: SavedV1): SavedV2 => {
+        const images: string[] = [];
+        const indexOf = new Map<string, number>();
+        const reference = (src: unknown) => {
+            if (typeof src !== 'string') return undefined;
+            if (!indexOf.has(src)) indexOf.set(src, images.push(src) - 1);
+            return indexOf.get(src);
+        };
+        const pages = records(project.pages).map(({ image, elements, ...page }) => ({
+            ...page,
+            image: reference(image),
+            elements: records(elements).map(({ imageSrc, ...el }) => ({ ...el, image: reference(imageSrc) })),
+        }));
+        return { ...project, version: 2, images, pages };
+    },
+};
+
+// Keeps every image once and points the pages and image elements at it
+export function createProject(data: Omit<ProjectFile, 'format' | 'version' | 'savedAt'>): StoredProject {
+    const images: string[] = [];
+    const indexOf = new Map<string, number>();
+    const reference = (src: string) => {
+        if (!indexOf.has(src)) indexOf.set(src, images.push(src) - 1);
+        return indexOf.get(src)!;
+    };
+    const pages = data.pages.map(({ image, elements, ...page }) => ({
+        ...page,
+        image: reference(image),
+        elements: elements.map(({ imageSrc, ...el }) => (imageSrc ? { ...el, image: reference(imageSrc) } : el)),
+    }));
+    return { format: PROJECT_FORMAT, version: PROJECT_VERSION, savedAt: Date.now(), ...data, images, pages };
+}
+
+const ELEMENT_TYPES: DrawingElement['type'][] = ['pencil', 'line', 'arrow', 'rectangle', 'circle', 'text', 'step', 'blur', 'image'];
+const STRING_FIELDS = ['text', 'fontFamily', 'bgColor', 'strokeColor', 'shadowColor', 'align', 'groupId'];
+const NUMBER_FIELDS = ['width', 'height', 'opacity', 'fontSize', 'shadowBlur', 'shadowOffset', 'letterSpacing', 'lineHeight', 'blurStrength', 'rotation'];
+const BOOLEAN_FIELDS = ['filled', 'pointerAtStart', 'locked', 'leader'];
+// Fields that only take one of a few values
+const CHOICE_FIELDS: Record<string, string[]> = {
+    textCase: ['none', 'uppercase', 'capitalize'],
+    stepShape: ['circle', 'square', 'rounded'],
+    blurMode: ['pixelate', 'gaussian', 'solid'],
+    blurShape: ['rect', 'ellipse', 'freehand'],
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isNumberList = (value: unknown): value is number[] => Array.isArray(value) && value.every(isNumber);
+
+// Images are only ever loaded from the file itself, never from an address it names
+const isImageData = (value: unknown): value is string => typeof value === 'string' && value.startsWith('data:image/');
+
+// Copies the known element fields that have the right type, filling in the ones older editors didn't write;
+// anything else in the file is dropped. Returns null for elements that can't be drawn.
+function normalizeElement(el: Record<string, unknown>, index: number, imageAt: (ref: unknown) => string | undefined): DrawingElement | null {
+    const type = el.type as DrawingElement['type'];
+    if (!ELEMENT_TYPES.includes(type)) return null;
+    const imageSrc = imageAt(el.image);
+    if (type === 'image' && !imageSrc) return null;
+
+    const pick = (fields: string[], accept: (value: unknown) => boolean) =>
+        Object.fromEntries(fields.filter(field => accept(el[field])).map(field => [field, el[field]]));
+
+    return {
+        ...pick(STRING_FIELDS, value => typeof value === 'string'),
+        ...pick(NUMBER_FIELDS, isNumber),
+        ...pick(BOOLEAN_FIELDS, value => typeof value === 'boolean'),
+        ...Object.fromEntries(Object.entries(CHOICE_FIELDS).filter(([field, choices]) => choices.includes(el[field] as string)).map(([field]) => [field, el[field]])),
+        ...(isNumberList(el.points) ? { points: el.points } : {}),
+        ...(isNumberList(el.dash) || el.dash === null ? { dash: el.dash } : {}),
+        ...(imageSrc ? { imageSrc } : {}),
+        id: typeof el.id === 'string' ? el.id : `element-${Date.now()}-${index}`,
+        type,
+        x: isNumber(el.x) ? el.x : 0,
+        y: isNumber(el.y) ? el.y : 0,
+        color: typeof el.color === 'string' ? el.color : '#000000',
+        strokeWidth: isNumber(el.strokeWidth) ? el.strokeWidth : 0,
+        visible: el.visible !== false,
+        name: typeof el.name === 'string' && el.name ? el.name : `${type} ${index + 1}`,
+    };
+}
+
+function normalizeCrop(crop: unknown): CropRect | null {
+    if (!isRecord(crop) || !isNumber(crop.x) || !isNumber(crop.y) || !isNumber(crop.width) || !isNumber(crop.height)) return null;
+    return crop.width > 0 && crop.height > 0 ? { x: crop.x, y: crop.y, width: crop.width, height: crop.height } : null;
+}
+
+function normalizeGroup(group: Record<string, unknown>): LayerGroup | null {
+    if (typeof group.id !== 'string') return null;
+    return {
+        id: group.id,
+        name: typeof group.name === 'string' ? group.name : 'Group',
+        collapsed: group.collapsed === true,
+        visible: group.visible !== false,
+        locked: group.locked === true,
+    };
+}
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+// Reads a project file, migrating it to the current version; throws when it can't be opened
+export function parseProject(text: string): ProjectFile {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not a valid project.');
+    }
+    if (!isRecord(data) || data.format !== PROJECT_FORMAT || typeof data.version !== 'number') {
+        throw new Error('The file is not a screenshot editor project.');
+    }
+    if (data.version > PROJECT_VERSION) {
+        throw new Error('This project was saved by a newer version of the extension. Update it to open the file.');
+    }
+
+    let saved = data as unknown as SavedProject;
+    if (saved.version === 1) saved = MIGRATIONS[1](saved);
+    if (saved.version !== PROJECT_VERSION) throw new Error(`Projects from version ${data.version} can't be opened.`);
+
+    const images = Array.isArray(saved.images) ? saved.images : [];
+    const imageAt = (ref: unknown) => {
+        const src = isNumber(ref) ? images[ref] : undefined;
+        return isImageData(src) ? src : undefined;
+    };
+
+    const pages: ProjectPage[] = records(saved.pages)
+        .filter(page => imageAt(page.image))
+        .map((page, i) => ({
+            image: imageAt(page.image)!,
+            label: optionalString(page.label) || `Part ${i + 1}`,
+            url: optionalString(page.url),
+            title: optionalString(page.title),
+            elements: records(page.elements)
+                .map((el, index) => normalizeElement(el, index, imageAt))
+                .filter((el): el is DrawingElement => el !== null),
+            crop: normalizeCrop(page.crop),
+        }));
+    if (!pages.length) throw new Error('The project has no images.');
+
+    return {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        savedAt: isNumber(saved.savedAt) ? saved.savedAt : Date.now(),
+        name: optionalString(saved.name),
+        mode: optionalString(saved.mode),
+        groups: records(saved.groups).map(normalizeGroup).filter((g): g is LayerGroup => g !== null),
+        pages,
+        activePage: Math.min(Math.max(0, Math.round(Number(saved.activePage)) || 0), pages.length - 1),
+    };
+}
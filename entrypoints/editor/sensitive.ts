@@ -0,0 +1,141 @@
+// Word of page text and where it was drawn, in CSS pixels relative to the captured area
+export interface TextWord {
+    // Character range of the word in its run's text
+    start: number;
+    end: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Text of one DOM text node, collected by the content script at capture time
+export interface TextRun {
+    text: string;
+    words: TextWord[];
+}
+
+export interface CaptureText {
+    // Device pixel ratio of the page; image pixels = CSS pixels * dpr
+    dpr: number;
+    runs: TextRun[];
+    // Height of each part when a tall capture was split into several images, in image pixels
+    tileHeight?: number;
+}
+
+export type SensitiveKind = 'email' | 'phone' | 'token' | 'iban' | 'card' | 'custom';
+
+export interface SensitiveMatch {
+    kind: SensitiveKind;
+    text: string;
+    // Bounding box of the words covering the match, in CSS pixels
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export const SENSITIVE_LABELS: Record<SensitiveKind, string> = {
+    email: 'Email',
+    phone: 'Phone',
+    token: 'API key / token',
+    iban: 'IBAN',
+    card: 'Card number',
+    custom: 'Custom pattern',
+};
+
+const digitsOf = (text: string) => text.replace(/\D/g, '');
+
+function passesLuhn(text: string): boolean {
+    const digits = digitsOf(text);
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = parseInt(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return digits.length >= 13 && sum % 10 === 0;
+}
+
+function passesIbanChecksum(text: string): boolean {
+    const iban = text.replace(/\s/g, '');
+    const rearranged = iban.slice(4) + iban.slice(0, 4);
+    let remainder = 0;
+    for (const char of rearranged) {
+        const value = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+        for (const digit of value) remainder = (remainder * 10 + parseInt(digit)) % 97;
+    }
+    return remainder === 1;
+}
+
+// Long random-looking strings: mixed letters and digits, not a plain word or number
+const looksRandom = (text: string) => /[a-z]/.test(text) && /[A-Z]/.test(text) && /\d/.test(text);
+
+// Checked in order; text claimed by an earlier pattern is not matched again
+const PATTERNS: { kind: SensitiveKind; regex: RegExp; accept?: (text: string) => boolean }[] = [
+    { kind: 'email', regex: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+    // JWTs, then well-known key prefixes (Stripe, AWS, GitHub, Slack, Google)
+    { kind: 'token', regex: /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]+/g },
+    { kind: 'token', regex: /\b(?:[sprk]k_(?:live|test)_[A-Za-z0-9]{16,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abpors]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35})\b/g },
+    { kind: 'token', regex: /\b[A-Za-z0-9_-]{32,}\b/g, accept: looksRandom },
+    { kind: 'iban', regex: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g, accept: passesIbanChecksum },
+    { kind: 'card', regex: /\b\d(?:[ -]?\d){12,18}\b/g, accept: passesLuhn },
+    {
+        kind: 'phone',
+        regex: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}[\s.-]?\d{2,4}[\s.-]?\d{2,4}\b/g,
+        // Needs separators like a written phone number, and skips ISO dates
+        accept: (text) => digitsOf(text).length >= 7 && digitsOf(text).length <= 15
+            && /[\s.()+-]/.test(text) && !/^\d{4}-\d{2}-\d{2}$/.test(text),
+    },
+];
+
+// Compiles user patterns, skipping empty lines; throws on the first invalid one
+export function compileCustomPatterns(sources: string[]): RegExp[] {
+    return sources
+        .map(source => source.trim())
+        .filter(Boolean)
+        .map(source => new RegExp(source, 'g'));
+}
+
+// Finds sensitive data in the captured text. Runs locally; nothing leaves the page.
+export function findSensitiveData(captured: CaptureText, customPatterns: RegExp[] = []): SensitiveMatch[] {
+    const patterns = [
+        ...PATTERNS,
+        ...customPatterns.map(regex => ({ kind: 'custom' as SensitiveKind, regex, accept: undefined })),
+    ];
+    const matches: SensitiveMatch[] = [];
+
+    captured.runs.forEach(run => {
+        const claimed: [number, number][] = [];
+
+        patterns.forEach(({ kind, regex, accept }) => {
+            regex.lastIndex = 0;
+            for (const match of run.text.matchAll(regex)) {
+                const start = match.index ?? 0;
+                const end = start + match[0].length;
+                if (!match[0].trim() || (accept && !accept(match[0]))) continue;
+                if (claimed.some(([s, e]) => start < e && end > s)) continue;
+
+                const words = run.words.filter(w => w.start < end && w.end > start);
+                if (!words.length) continue;
+                claimed.push([start, end]);
+
+                const left = Math.min(...words.map(w => w.x));
+                const top = Math.min(...words.map(w => w.y));
+                matches.push({
+                    kind,
+                    text: match[0],
+                    x: left,
+                    y: top,
+                    width: Math.max(...words.map(w => w.x + w.width)) - left,
+                    height: Math.max(...words.map(w => w.y + w.height)) - top,
+                });
+            }
+        });
+    });
+
+    return matches;
+}
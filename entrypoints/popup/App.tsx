@@ -1,13 +1,93 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import './App.css';
 import logo from '../../assets/logo.png';
-import { IconMonitor, IconSelection, IconFile } from '../editor/Icons';
+import { IconMonitor, IconSelection, IconFile, IconScroll, IconTarget, IconTimer, IconLayers, IconHistory, IconImage } from '../editor/Icons';
+import { listCaptures, captureEditorUrl, CaptureEntry, CAPTURE_MODE_LABELS } from '../../utils/captureHistory';
 
-type CaptureMode = 'visible' | 'selection' | 'fullpage';
+type CaptureMode = 'visible' | 'selection' | 'fullpage' | 'scrollarea' | 'element';
+
+const DELAY_PRESETS = [3, 5, 10];
+
+// Captures listed under Recent; the rest are in the history page
+const RECENT_COUNT = 3;
+
+const DEFAULT_BLANK = { width: 1280, height: 720, background: '#ffffff' };
+
+// Firefox has an API for its shortcut settings page (not in the typings yet); Chromium browsers only
+// have a URL for theirs, and other browsers have no way to open it
+const commands = browser.commands as typeof browser.commands & { openShortcutSettings?: () => Promise<void> };
+const canOpenShortcutSettings = !!commands.openShortcutSettings || !(import.meta.env.FIREFOX || import.meta.env.SAFARI);
 
 function App() {
   const [isCapturing, setIsCapturing] = useState(false);
   const [status, setStatus] = useState('');
+  const [customDelay, setCustomDelay] = useState(15);
+  const [batchMode, setBatchMode] = useState<'visible' | 'fullpage'>('visible');
+  const [batchScope, setBatchScope] = useState<'selected' | 'window'>('window');
+  const [batchName, setBatchName] = useState('');
+  // Current binding of each keyboard command, keyed by command name (empty when unbound)
+  const [shortcuts, setShortcuts] = useState<Record<string, string>>({});
+  const [blankCanvas, setBlankCanvas] = useState(DEFAULT_BLANK);
+  const [recent, setRecent] = useState<{ entry: CaptureEntry; thumbnail: string }[]>([]);
+
+  useEffect(() => {
+    browser.commands.getAll().then(commands => {
+      const bindings: Record<string, string> = {};
+      commands.forEach(command => {
+        if (command.name) bindings[command.name] = command.shortcut || '';
+      });
+      setShortcuts(bindings);
+    }).catch(() => { });
+  }, []);
+
+  useEffect(() => {
+    let thumbnails: string[] = [];
+    listCaptures(RECENT_COUNT).then(entries => {
+      const items = entries.map(entry => ({ entry, thumbnail: URL.createObjectURL(entry.thumbnail) }));
+      thumbnails = items.map(item => item.thumbnail);
+      setRecent(items);
+    }).catch(() => { });
+    return () => thumbnails.forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  const openCapture = (id: string) => {
+    browser.tabs.create({ url: captureEditorUrl(id) });
+    window.close();
+  };
+
+  const openHistory = () => {
+    browser.tabs.create({ url: browser.runtime.getURL('/captures.html') });
+    window.close();
+  };
+
+  // Without a capture the editor starts empty and asks for an image
+  const openEmptyEditor = () => {
+    browser.tabs.create({ url: browser.runtime.getURL('/editor.html') });
+    window.close();
+  };
+
+  const openBlankCanvas = () => {
+    const params = new URLSearchParams({
+      blank: '1',
+      width: String(blankCanvas.width),
+      height: String(blankCanvas.height),
+      background: blankCanvas.background,
+    });
+    browser.tabs.create({ url: `${browser.runtime.getURL('/editor.html')}?${params}` });
+    window.close();
+  };
+
+  const openShortcutSettings = async () => {
+    if (commands.openShortcutSettings) await commands.openShortcutSettings();
+    else browser.tabs.create({ url: `${import.meta.env.EDGE ? 'edge' : 'chrome'}://extensions/shortcuts` });
+    window.close();
+  };
+
+  const renderShortcut = (command: string) => (
+    shortcuts[command]
+      ? <kbd className="shortcut" title="Keyboard shortcut">{shortcuts[command]}</kbd>
+      : null
+  );
 
   const handleCapture = async (mode: CaptureMode) => {
     setIsCapturing(true);
@@ -36,6 +116,38 @@ function App() {
     }
   };
 
+  const handleDelayedCapture = (seconds: number) => {
+    const delay = Math.min(60, Math.max(1, Math.round(seconds) || 3));
+    setIsCapturing(true);
+    setStatus(`Capturing in ${delay}s...`);
+
+    // The popup has to close so the page gets focus back and menus can be opened;
+    // the background finishes the capture and opens the editor on its own.
+    browser.runtime.sendMessage({ type: 'capture', mode: 'delayed', delay }).catch(() => { });
+    setTimeout(() => {
+      window.close();
+    }, 300);
+  };
+
+  const handleBatchCapture = async () => {
+    // Capturing tabs other than the active one needs access to every site; the
+    // request has to happen here, while the click still counts as a user gesture
+    const granted = await browser.permissions.request({ origins: ['<all_urls>'] }).catch(() => false);
+    if (!granted) {
+      setStatus('Batch capture needs access to the tabs it captures');
+      return;
+    }
+
+    setIsCapturing(true);
+    setStatus('Capturing tabs...');
+
+    // The background switches tabs, which closes the popup; it opens the editor when done
+    browser.runtime.sendMessage({ type: 'capture-batch', mode: batchMode, scope: batchScope, name: batchName }).catch(() => { });
+    setTimeout(() => {
+      window.close();
+    }, 300);
+  };
+
   return (
     <div className="popup-container">
       <header className="popup-header">
@@ -53,6 +165,7 @@ function App() {
             <span className="label">Visible Viewport</span>
             <span className="desc">Capture what's on screen</span>
           </div>
+          {renderShortcut('capture-visible')}
         </button>
 
         <button
@@ -65,6 +178,7 @@ function App() {
             <span className="label">Selected Area</span>
             <span className="desc">Draw a custom rectangle</span>
           </div>
+          {renderShortcut('capture-selection')}
         </button>
 
         <button
@@ -77,9 +191,171 @@ function App() {
             <span className="label">Entire Page</span>
             <span className="desc">Capture from top to bottom</span>
           </div>
+          {renderShortcut('capture-fullpage')}
+        </button>
+
+        <button
+          className="capture-btn scrollarea"
+          onClick={() => handleCapture('scrollarea')}
+          disabled={isCapturing}
+        >
+          <span className="icon"><IconScroll /></span>
+          <div className="content">
+            <span className="label">Scrolling Area</span>
+            <span className="desc">Pick a panel that scrolls on its own</span>
+          </div>
         </button>
+
+        <button
+          className="capture-btn element"
+          onClick={() => handleCapture('element')}
+          disabled={isCapturing}
+        >
+          <span className="icon"><IconTarget /></span>
+          <div className="content">
+            <span className="label">Element</span>
+            <span className="desc">Click a card, form or table</span>
+          </div>
+        </button>
+      </div>
+
+      <div className="delay-section">
+        <div className="delay-header">
+          <IconTimer />
+          <span className="label">Delayed Capture</span>
+        </div>
+        <span className="desc">Open the menu or tooltip you need before the countdown ends</span>
+        <div className="delay-options">
+          {DELAY_PRESETS.map(seconds => (
+            <button
+              key={seconds}
+              className="delay-chip"
+              onClick={() => handleDelayedCapture(seconds)}
+              disabled={isCapturing}
+            >
+              {seconds}s
+            </button>
+          ))}
+          <div className="delay-custom">
+            <input
+              type="number"
+              min={1}
+              max={60}
+              value={customDelay}
+              onChange={(e) => setCustomDelay(parseInt(e.target.value) || 1)}
+              disabled={isCapturing}
+              title="Custom delay in seconds"
+            />
+            <button
+              className="delay-chip"
+              onClick={() => handleDelayedCapture(customDelay)}
+              disabled={isCapturing}
+            >
+              Go
+            </button>
+          </div>
+        </div>
       </div>
 
+      <div className="batch-section">
+        <div className="delay-header">
+          <IconLayers />
+          <span className="label">Batch Capture</span>
+        </div>
+        <span className="desc">Capture several tabs in a row into one named set</span>
+        <input
+          className="batch-name"
+          type="text"
+          placeholder="Set name (optional)"
+          value={batchName}
+          onChange={(e) => setBatchName(e.target.value)}
+          disabled={isCapturing}
+        />
+        <div className="batch-options">
+          <select value={batchScope} onChange={(e) => setBatchScope(e.target.value as 'selected' | 'window')} disabled={isCapturing}>
+            <option value="window">All tabs in window</option>
+            <option value="selected">Selected tabs</option>
+          </select>
+          <select value={batchMode} onChange={(e) => setBatchMode(e.target.value as 'visible' | 'fullpage')} disabled={isCapturing}>
+            <option value="visible">Visible area</option>
+            <option value="fullpage">Full page</option>
+          </select>
+          <button className="delay-chip" onClick={handleBatchCapture} disabled={isCapturing}>
+            Go
+          </button>
+        </div>
+      </div>
+
+      <div className="open-section">
+        <button className="capture-btn" onClick={openEmptyEditor} disabled={isCapturing}>
+          <span className="icon"><IconImage /></span>
+          <div className="content">
+            <span className="label">Open Image in Editor</span>
+            <span className="desc">Annotate a file or a pasted image</span>
+          </div>
+        </button>
+        <span className="desc">New blank canvas</span>
+        <div className="blank-options">
+          <input
+            type="number"
+            min={1}
+            max={16384}
+            value={blankCanvas.width}
+            onChange={(e) => setBlankCanvas({ ...blankCanvas, width: parseInt(e.target.value) || 1 })}
+            title="Width (px)"
+          />
+          <span>&times;</span>
+          <input
+            type="number"
+            min={1}
+            max={16384}
+            value={blankCanvas.height}
+            onChange={(e) => setBlankCanvas({ ...blankCanvas, height: parseInt(e.target.value) || 1 })}
+            title="Height (px)"
+          />
+          <input
+            type="color"
+            value={blankCanvas.background}
+            onChange={(e) => setBlankCanvas({ ...blankCanvas, background: e.target.value })}
+            title="Background color"
+          />
+          <button className="delay-chip" onClick={openBlankCanvas} disabled={isCapturing}>
+            Create
+          </button>
+        </div>
+      </div>
+
+      <div className="recent-section">
+        <div className="delay-header">
+          <IconHistory />
+          <span className="label">Recent</span>
+          <button className="recent-all" onClick={openHistory}>View all</button>
+        </div>
+        {recent.length === 0 ? (
+          <span className="desc">Your captures will show up here</span>
+        ) : (
+          <div className="recent-list">
+            {recent.map(({ entry, thumbnail }) => (
+              <button key={entry.id} className="recent-item" onClick={() => openCapture(entry.id)} title="Open in editor">
+                <img src={thumbnail} alt="" />
+                <div className="content">
+                  <span className="label">{entry.name || entry.title || 'Untitled'}</span>
+                  <span className="desc">
+                    {CAPTURE_MODE_LABELS[entry.mode] || entry.mode} · {new Date(entry.createdAt).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })}
+                  </span>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {canOpenShortcutSettings && (
+        <button className="shortcut-link" onClick={openShortcutSettings}>
+          Customize keyboard shortcuts
+        </button>
+      )}
+
       {status && (
         <div className="status">
           {isCapturing && <span className="spinner"></span>}
@@ -0,0 +1,355 @@
+// Local library of past captures, kept in IndexedDB so it isn't bound by storage.local quotas
+import type { CaptureText } from '../entrypoints/editor/sensitive';
+import type { CropRect, DrawingElement, LayerGroup, PageState } from '../entrypoints/editor/Editor';
+
+const DB_NAME = 'screenshot-editor';
+const DB_VERSION = 2;
+// Small entries listed by the gallery and popup
+const ENTRY_STORE = 'captures';
+// Full-size images, only read when a capture is opened or exported
+const IMAGE_STORE = 'captureImages';
+// Working state of the editor bound to each capture, so a reload or crash loses nothing
+const SESSION_STORE = 'sessions';
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+export const CAPTURE_MODE_LABELS: Record<string, string> = {
+  visible: 'Visible area',
+  selection: 'Selected area',
+  fullpage: 'Full page',
+  scrollarea: 'Scrolling area',
+  element: 'Element',
+  delayed: 'Delayed',
+  image: 'Image',
+  batch: 'Batch',
+  project: 'Project',
+  file: 'Opened image',
+  paste: 'Pasted image',
+  blank: 'Blank canvas',
+};
+const THUMBNAIL_SIZE = 320;
+
+// Annotations of one image, as last left in the editor
+export interface SavedPage {
+  elements: DrawingElement[];
+  crop: CropRect | null;
+  // Base image after a rotate or flip, as a data URL; unset means the captured image
+  image?: string;
+}
+
+export interface SavedAnnotations {
+  pages: SavedPage[];
+  groups: LayerGroup[];
+  activePage: number;
+  savedAt: number;
+}
+
+// Where a capture came from, as recorded by the background
+export interface CaptureInfo {
+  // Capture mode ('visible', 'fullpage', ..., 'batch', 'project' for an opened project file,
+  // or 'file', 'paste' and 'blank' for images opened in an empty editor)
+  mode: string;
+  url?: string;
+  title?: string;
+  // Capture set name, for batch captures
+  name?: string;
+  // Titles of the pages whose capture stopped at the frame limit or was cut at the canvas width limit
+  truncated?: string[];
+  // Titles of the tabs a batch capture had to skip
+  failed?: string[];
+}
+
+export interface CaptureEntry extends CaptureInfo {
+  id: string;
+  createdAt: number;
+  pageCount: number;
+  // Size of the first image
+  width: number;
+  height: number;
+  thumbnail: Blob;
+  annotations?: SavedAnnotations;
+}
+
+export interface CaptureImage {
+  blob: Blob;
+  label: string;
+  url?: string;
+  title?: string;
+}
+
+interface CaptureImages {
+  id: string;
+  images: CaptureImage[];
+  text?: CaptureText | null;
+}
+
+// Everything needed to put the editor back where it was, undo history included
+export interface EditorSession {
+  pages: PageState[];
+  activePage: number;
+  groups: LayerGroup[];
+  zoom: number;
+}
+
+// Undo steps after a rotate or flip all point at the same image; it is stored once and referenced by index
+interface StoredSession extends Omit<EditorSession, 'pages'> {
+  id: string;
+  pages: (Omit<PageState, 'history'> & { history: (Omit<PageState['history'][number], 'imageSrc'> & { image?: number })[] })[];
+  images: string[];
+  savedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+          db.createObjectStore(ENTRY_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+          db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// Editor page bound to a capture of the library
+export function captureEditorUrl(id: string): string {
+  return `${browser.runtime.getURL('/editor.html')}?capture=${encodeURIComponent(id)}`;
+}
+
+export async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  const response = await fetch(dataUrl);
+  return response.blob();
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Scaled-down JPEG of an image for the gallery; works in the service worker as well as in pages
+async function createThumbnail(blob: Blob): Promise<{ thumbnail: Blob; width: number; height: number }> {
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = new OffscreenCanvas(Math.max(1, Math.round(bitmap.width * scale)), Math.max(1, Math.round(bitmap.height * scale)));
+  const ctx = canvas.getContext('2d');
+  ctx?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  const result = { thumbnail: await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 }), width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return result;
+}
+
+export async function getHistoryLimit(): Promise<number> {
+  const { historyLimit } = await browser.storage.local.get('historyLimit') as { historyLimit?: number };
+  return historyLimit ?? DEFAULT_HISTORY_LIMIT;
+}
+
+export async function setHistoryLimit(limit: number) {
+  await browser.storage.local.set({ historyLimit: limit });
+  await pruneHistory(limit);
+}
+
+// Whether captures record the page text that Find Sensitive Data scans (on unless turned off)
+export async function getRecordPageText(): Promise<boolean> {
+  const { recordPageText } = await browser.storage.local.get('recordPageText') as { recordPageText?: boolean };
+  return recordPageText ?? true;
+}
+
+// Turning it off also deletes the text recorded with earlier captures
+export async function setRecordPageText(record: boolean) {
+  await browser.storage.local.set({ recordPageText: record });
+  if (!record) await clearCaptureTexts();
+}
+
+// Adds a capture to the library and drops the oldest ones past the retention limit; returns its id
+export async function addCapture(
+  info: CaptureInfo,
+  images: CaptureImage[],
+  text?: CaptureText | null,
+): Promise<string> {
+  if (!images.length) throw new Error('A capture needs at least one image');
+  const id = crypto.randomUUID();
+  const { thumbnail, width, height } = await createThumbnail(images[0].blob);
+  const entry: CaptureEntry = { id, createdAt: Date.now(), ...info, pageCount: images.length, width, height, thumbnail };
+
+  const db = await openDb();
+  const tx = db.transaction([ENTRY_STORE, IMAGE_STORE], 'readwrite');
+  tx.objectStore(ENTRY_STORE).put(entry);
+  const record: CaptureImages = { id, images, text };
+  tx.objectStore(IMAGE_STORE).put(record);
+  await transactionDone(tx);
+
+  await pruneHistory(await getHistoryLimit());
+  return id;
+}
+
+// Newest first; `limit` stops after that many entries
+export async function listCaptures(limit?: number): Promise<CaptureEntry[]> {
+  const db = await openDb();
+  const index = db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).index('createdAt');
+  const entries: CaptureEntry[] = [];
+
+  return new Promise((resolve, reject) => {
+    const request = index.openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || (limit !== undefined && entries.length >= limit)) {
+        resolve(entries);
+        return;
+      }
+      entries.push(cursor.value);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getCapture(id: string): Promise<CaptureEntry | undefined> {
+  const db = await openDb();
+  return requestResult(db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).get(id));
+}
+
+export async function getCaptureImages(id: string): Promise<{ images: CaptureImage[]; text?: CaptureText | null } | undefined> {
+  const db = await openDb();
+  return requestResult(db.transaction(IMAGE_STORE).objectStore(IMAGE_STORE).get(id));
+}
+
+export async function getSession(id: string): Promise<EditorSession | undefined> {
+  const db = await openDb();
+  const stored: StoredSession | undefined = await requestResult(db.transaction(SESSION_STORE).objectStore(SESSION_STORE).get(id));
+  if (!stored) return undefined;
+
+  const { images, pages, activePage, groups, zoom } = stored;
+  return {
+    pages: pages.map(page => ({
+      ...page,
+      history: page.history.map(({ image, ...entry }) => ({ ...entry, imageSrc: image === undefined ? undefined : images[image] })),
+    })),
+    activePage,
+    groups,
+    zoom,
+  };
+}
+
+// Saves the editor's working state, and the current annotations with the capture for the gallery and exports
+export async function saveSession(id: string, session: EditorSession) {
+  const images: string[] = [];
+  const imageIndex = new Map<string, number>();
+  const indexOf = (src: string) => {
+    if (!imageIndex.has(src)) imageIndex.set(src, images.push(src) - 1);
+    return imageIndex.get(src)!;
+  };
+  const stored: StoredSession = {
+    ...session,
+    id,
+    pages: session.pages.map(page => ({
+      ...page,
+      history: page.history.map(({ imageSrc, ...entry }) => ({ ...entry, image: imageSrc === undefined ? undefined : indexOf(imageSrc) })),
+    })),
+    images,
+    savedAt: Date.now(),
+  };
+  const annotations: SavedAnnotations = {
+    pages: session.pages.map(page => {
+      const entry = page.history[page.historyIndex];
+      return { elements: page.elements, crop: entry?.crop ?? null, image: entry?.imageSrc };
+    }),
+    groups: session.groups,
+    activePage: session.activePage,
+    savedAt: stored.savedAt,
+  };
+
+  const db = await openDb();
+  const tx = db.transaction([ENTRY_STORE, SESSION_STORE], 'readwrite');
+  const done = transactionDone(tx);
+  const entries = tx.objectStore(ENTRY_STORE);
+  const entry: CaptureEntry | undefined = await requestResult(entries.get(id));
+  // A capture deleted from the history while its editor is open stays deleted
+  if (entry) {
+    entries.put({ ...entry, annotations });
+    tx.objectStore(SESSION_STORE).put(stored);
+  }
+  await done;
+}
+
+// Overwrites one image of a capture after redactions were burnt in. The page text recorded for finding
+// sensitive data holds the redacted words as well, so it is dropped with the original image
+export async function replaceCaptureImage(id: string, index: number, blob: Blob) {
+  const stored = await getCaptureImages(id);
+  const entry = await getCapture(id);
+  if (!stored?.images[index] || !entry) return;
+
+  const images = stored.images.map((image, i) => i === index ? { ...image, blob } : image);
+  const updated = index === 0 ? { ...entry, ...await createThumbnail(blob) } : entry;
+
+  const db = await openDb();
+  const tx = db.transaction([ENTRY_STORE, IMAGE_STORE], 'readwrite');
+  tx.objectStore(ENTRY_STORE).put(updated);
+  const record: CaptureImages = { ...stored, id, images, text: null };
+  tx.objectStore(IMAGE_STORE).put(record);
+  await transactionDone(tx);
+}
+
+export async function deleteCaptures(ids: string[]) {
+  const db = await openDb();
+  const tx = db.transaction([ENTRY_STORE, IMAGE_STORE, SESSION_STORE], 'readwrite');
+  ids.forEach(id => {
+    tx.objectStore(ENTRY_STORE).delete(id);
+    tx.objectStore(IMAGE_STORE).delete(id);
+    tx.objectStore(SESSION_STORE).delete(id);
+  });
+  await transactionDone(tx);
+}
+
+async function clearCaptureTexts() {
+  const db = await openDb();
+  const tx = db.transaction(IMAGE_STORE, 'readwrite');
+  const request = tx.objectStore(IMAGE_STORE).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const record: CaptureImages = cursor.value;
+    if (record.text) cursor.update({ ...record, text: null });
+    cursor.continue();
+  };
+  await transactionDone(tx);
+}
+
+async function pruneHistory(limit: number) {
+  const entries = await listCaptures();
+  if (entries.length > limit) await deleteCaptures(entries.slice(limit).map(entry => entry.id));
+}
@@ -14,6 +14,23 @@ export default defineConfig({
       96: 'icon/96.png',
       128: 'icon/128.png',
     },
-    permissions: ['activeTab', 'storage', 'scripting', 'unlimitedStorage'],
+    permissions: ['activeTab', 'storage', 'scripting', 'unlimitedStorage', 'contextMenus'],
+    // Requested from the popup before a batch capture, which has to capture tabs other than the active one
+    optional_host_permissions: ['<all_urls>'],
+    // Default bindings; users can rebind them from the browser's extension shortcuts page
+    commands: {
+      'capture-visible': {
+        suggested_key: { default: 'Alt+Shift+V' },
+        description: 'Capture visible area',
+      },
+      'capture-selection': {
+        suggested_key: { default: 'Alt+Shift+S' },
+        description: 'Capture selected area',
+      },
+      'capture-fullpage': {
+        suggested_key: { default: 'Alt+Shift+F' },
+        description: 'Capture full page',
+      },
+    },
   },
 });